@@ -0,0 +1,73 @@
+/**
+ * Audio Output - Play the circuit's sound through WebAudio
+ *
+ * Once per animation frame the mixer renders the sound made during that
+ * frame's simulated time, and the buffer is queued right after the previous
+ * one. Browsers only allow audio to start from a user gesture, so the
+ * context is created when sound is first switched on.
+ */
+
+import { Component } from '../core/Component';
+import { SoundMixer } from './SoundMixer';
+
+const MIN_LEAD = 0.02; // Seconds of audio kept queued ahead of playback
+const MAX_LEAD = 0.3; // Resynchronize if the queue runs this far ahead
+const VOLUME = 0.5;
+
+export class AudioOutput {
+  private context: AudioContext | null = null;
+  private gain: GainNode | null = null;
+  private mixer: SoundMixer | null = null;
+  private enabled: boolean = false;
+  private nextStartTime: number = 0; // Audio-clock time where the next buffer starts
+
+  // Call from a click or key handler, so the browser lets playback start
+  setEnabled(enabled: boolean, components: Component[]): void {
+    this.enabled = enabled;
+    if (!enabled) {
+      this.context?.suspend();
+      return;
+    }
+
+    if (!this.context) {
+      this.context = new AudioContext();
+      this.gain = this.context.createGain();
+      this.gain.gain.value = VOLUME;
+      this.gain.connect(this.context.destination);
+      this.mixer = new SoundMixer(this.context.sampleRate);
+    }
+    this.context.resume();
+
+    // Throw away what was made while muted instead of playing it all at once
+    this.mixer?.mix(components, 0);
+    this.nextStartTime = 0;
+  }
+
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  // Queue the sound made during the last frame
+  update(components: Component[], deltaTime: number): void {
+    if (!this.enabled || !this.context || !this.gain || !this.mixer) return;
+
+    const sampleRate = this.context.sampleRate;
+    const frames = Math.round(deltaTime * sampleRate);
+    if (frames <= 0) return;
+
+    const buffer = this.context.createBuffer(1, frames, sampleRate);
+    buffer.getChannelData(0).set(this.mixer.mix(components, frames));
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.gain);
+
+    // After a stall or a dropped frame, start again a little ahead of the clock
+    const now = this.context.currentTime;
+    if (this.nextStartTime < now + MIN_LEAD || this.nextStartTime > now + MAX_LEAD) {
+      this.nextStartTime = now + 2 * MIN_LEAD;
+    }
+    source.start(this.nextStartTime);
+    this.nextStartTime += frames / sampleRate;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Sound Mixer - Combine every sound-making component into one mono signal
+ *
+ * Pure and DOM-free, so the browser output and headless scripts share it.
+ * Every source is asked each time, even quiet ones, so none of them keeps
+ * sound queued up; the sum is soft-clipped instead of wrapping or cutting.
+ */
+
+import { Component, isSoundSource } from '../core/Component';
+
+export class SoundMixer {
+  private sampleRate: number;
+  private scratch: Float32Array = new Float32Array(0);
+
+  constructor(sampleRate: number) {
+    this.sampleRate = sampleRate;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  // Mix `frames` samples of what the components produced since the last call
+  mix(components: Component[], frames: number): Float32Array {
+    const out = new Float32Array(frames);
+    if (this.scratch.length !== frames) {
+      this.scratch = new Float32Array(frames);
+    }
+
+    for (const component of components) {
+      if (!isSoundSource(component)) continue;
+      this.scratch.fill(0);
+      component.renderSound(this.scratch, this.sampleRate);
+      for (let i = 0; i < frames; i++) {
+        out[i] += this.scratch[i];
+      }
+    }
+
+    for (let i = 0; i < frames; i++) {
+      out[i] = Math.tanh(out[i]);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,289 @@
+/**
+ * Bipolar Junction Transistor - NPN/PNP, Ebers-Moll transport model
+ *
+ * Terminals: 0 = base, 1 = collector, 2 = emitter.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { THERMAL_VOLTAGE, junction, criticalVoltage, limitJunctionVoltage } from '../physics/DeviceModels';
+
+export enum BJTPolarity {
+  NPN = 'npn',
+  PNP = 'pnp'
+}
+
+export enum BJTRegion {
+  CUTOFF = 'cutoff',
+  ACTIVE = 'active',
+  SATURATION = 'saturation'
+}
+
+export const BASE = 0;
+export const COLLECTOR = 1;
+export const EMITTER = 2;
+
+export class BJT extends Component {
+  private polarity: BJTPolarity;
+  private saturationCurrent: number = 1e-14; // Is (A)
+  private forwardBeta: number; // βF, common-emitter current gain
+  private reverseBeta: number = 1; // βR, gain with collector and emitter swapped
+  private powerRating: number = 0.625; // Watts, TO-92 package
+
+  // Junction voltages (polarity-corrected) of the last linearization
+  private vbe: number = 0;
+  private vbc: number = 0;
+
+  // Base and collector currents at that point and their partial derivatives
+  private baseCurrent0: number = 0;
+  private collectorCurrent0: number = 0;
+  private dIbdVbe: number = 0;
+  private dIbdVbc: number = 0;
+  private dIcdVbe: number = 0;
+  private dIcdVbc: number = 0;
+
+  constructor(position: Vector2, polarity: BJTPolarity = BJTPolarity.NPN, beta: number = 100) {
+    super(ComponentType.BJT, position);
+    this.polarity = polarity;
+    this.forwardBeta = beta;
+    this.width = 60;
+    this.height = 60;
+    this.maxTemperature = 150;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: this.toWorld(new Vector2(-this.width / 2, 0)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(this.width / 4, -this.height / 2)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(this.width / 4, this.height / 2)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 3) {
+      this.terminals[BASE].position = this.toWorld(new Vector2(-this.width / 2, 0));
+      this.terminals[COLLECTOR].position = this.toWorld(new Vector2(this.width / 4, -this.height / 2));
+      this.terminals[EMITTER].position = this.toWorld(new Vector2(this.width / 4, this.height / 2));
+    }
+  }
+
+  getResistance(): number {
+    if (this.isBurned) return Infinity;
+
+    // Collector-emitter static resistance
+    const current = this.getCurrent();
+    return Math.abs(current) > 1e-12 ? this.getVoltage() / current : Infinity;
+  }
+
+  // Collector-emitter voltage
+  getVoltage(): number {
+    if (this.terminals.length === 3) {
+      return this.terminals[COLLECTOR].voltage - this.terminals[EMITTER].voltage;
+    }
+    return 0;
+  }
+
+  // Collector current, positive into the collector
+  getCurrent(): number {
+    return this.getCollectorCurrent();
+  }
+
+  getBaseCurrent(): number {
+    return this.isBurned ? 0 : this.terminals[BASE].current;
+  }
+
+  getCollectorCurrent(): number {
+    return this.isBurned ? 0 : this.terminals[COLLECTOR].current;
+  }
+
+  getEmitterCurrent(): number {
+    return this.isBurned ? 0 : this.terminals[EMITTER].current;
+  }
+
+  getPolarity(): BJTPolarity {
+    return this.polarity;
+  }
+
+  getBeta(): number {
+    return this.forwardBeta;
+  }
+
+  setBeta(beta: number): void {
+    this.forwardBeta = Math.max(1, beta);
+  }
+
+  getReverseBeta(): number {
+    return this.reverseBeta;
+  }
+
+  getSaturationCurrent(): number {
+    return this.saturationCurrent;
+  }
+
+  setSaturationCurrent(current: number): void {
+    this.saturationCurrent = Math.max(1e-18, current);
+  }
+
+  getPowerRating(): number {
+    return this.powerRating;
+  }
+
+  setPowerRating(watts: number): void {
+    this.powerRating = Math.max(0.01, watts);
+  }
+
+  // Operating region from the junction biases (about 0.5 V turns a junction on)
+  getRegion(): BJTRegion {
+    const sign = this.polarity === BJTPolarity.NPN ? 1 : -1;
+    const vbe = sign * (this.terminals[BASE].voltage - this.terminals[EMITTER].voltage);
+    const vbc = sign * (this.terminals[BASE].voltage - this.terminals[COLLECTOR].voltage);
+
+    if (this.isBurned || vbe < 0.5) return BJTRegion.CUTOFF;
+    return vbc > 0.4 ? BJTRegion.SATURATION : BJTRegion.ACTIVE;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    if (this.isBurned) return [];
+
+    // Both junctions conduct at some bias
+    return [
+      { from: BASE, to: COLLECTOR, kind: CouplingKind.CONDUCTIVE },
+      { from: BASE, to: EMITTER, kind: CouplingKind.CONDUCTIVE }
+    ];
+  }
+
+  isNonlinear(): boolean {
+    return true;
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const sign = this.polarity === BJTPolarity.NPN ? 1 : -1;
+    const vb = system.getVoltage(nodes[BASE]);
+    const vbeNew = sign * (vb - system.getVoltage(nodes[EMITTER]));
+    const vbcNew = sign * (vb - system.getVoltage(nodes[COLLECTOR]));
+
+    // Limit each junction separately so neither exponential runs away
+    const vCrit = criticalVoltage(this.saturationCurrent, THERMAL_VOLTAGE);
+    this.vbe = limitJunctionVoltage(vbeNew, this.vbe, THERMAL_VOLTAGE, vCrit);
+    this.vbc = limitJunctionVoltage(vbcNew, this.vbc, THERMAL_VOLTAGE, vCrit);
+    if (this.vbe !== vbeNew || this.vbc !== vbcNew) system.markLimited();
+
+    this.linearize();
+
+    // Expand around the node voltages that match the limited junction voltages
+    const jacobian = this.getJacobian();
+    const currents = this.getTerminalCurrents(this.vbe, this.vbc);
+    const voltages = [vb, system.getVoltage(nodes[COLLECTOR]), system.getVoltage(nodes[EMITTER])];
+    const limitedVoltages = [
+      voltages[BASE],
+      voltages[BASE] - sign * this.vbc,
+      voltages[BASE] - sign * this.vbe
+    ];
+
+    system.stampLinearizedCurrents(nodes, currents, jacobian, limitedVoltages);
+  }
+
+  stampAC(system: ACSystem): void {
+    if (this.isBurned) return;
+
+    // Small-signal hybrid-π is the Jacobian at the operating point
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const jacobian = this.getJacobian();
+    for (let k = 0; k < 3; k++) {
+      for (let j = 0; j < 3; j++) {
+        system.stampMatrix(nodes[k], nodes[j], jacobian[k][j]);
+      }
+    }
+  }
+
+  getSolverState(): number[] {
+    return [this.vbe, this.vbc];
+  }
+
+  // The linearization follows from the junction voltages alone
+  setSolverState(state: number[]): void {
+    [this.vbe, this.vbc] = state;
+    this.linearize();
+  }
+
+  // Ebers-Moll transport model around the stored junction voltages
+  private linearize(): void {
+    const forward = junction(this.vbe, this.saturationCurrent, THERMAL_VOLTAGE);
+    const reverse = junction(this.vbc, this.saturationCurrent, THERMAL_VOLTAGE);
+
+    this.baseCurrent0 = forward.current / this.forwardBeta + reverse.current / this.reverseBeta;
+    this.collectorCurrent0 = forward.current - reverse.current * (1 + 1 / this.reverseBeta);
+    this.dIbdVbe = forward.conductance / this.forwardBeta;
+    this.dIbdVbc = reverse.conductance / this.reverseBeta;
+    this.dIcdVbe = forward.conductance;
+    this.dIcdVbc = -reverse.conductance * (1 + 1 / this.reverseBeta);
+  }
+
+  // Linearized [base, collector, emitter] currents, positive into the device
+  private getTerminalCurrents(vbe: number, vbc: number): number[] {
+    const sign = this.polarity === BJTPolarity.NPN ? 1 : -1;
+    const dVbe = vbe - this.vbe;
+    const dVbc = vbc - this.vbc;
+    const base = this.baseCurrent0 + this.dIbdVbe * dVbe + this.dIbdVbc * dVbc;
+    const collector = this.collectorCurrent0 + this.dIcdVbe * dVbe + this.dIcdVbc * dVbc;
+    return [sign * base, sign * collector, -sign * (base + collector)];
+  }
+
+  // dI_k/dV_j for terminal currents k and node voltages j; the polarity sign cancels
+  private getJacobian(): number[][] {
+    const base = [this.dIbdVbe + this.dIbdVbc, -this.dIbdVbc, -this.dIbdVbe];
+    const collector = [this.dIcdVbe + this.dIcdVbc, -this.dIcdVbc, -this.dIcdVbe];
+    const emitter = base.map((value, j) => -(value + collector[j]));
+    return [base, collector, emitter];
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    if (this.isBurned) {
+      this.terminals.forEach(t => (t.current = 0));
+      return;
+    }
+
+    const sign = this.polarity === BJTPolarity.NPN ? 1 : -1;
+    const vb = this.terminals[BASE].voltage;
+    const currents = this.getTerminalCurrents(
+      sign * (vb - this.terminals[EMITTER].voltage),
+      sign * (vb - this.terminals[COLLECTOR].voltage)
+    );
+    this.terminals.forEach((terminal, k) => (terminal.current = currents[k]));
+  }
+
+  update(deltaTime: number): void {
+    // Nearly all the heat is dissipated at the collector junction
+    this.powerDissipation = Math.abs(
+      this.getVoltage() * this.getCollectorCurrent() +
+      (this.terminals[BASE].voltage - this.terminals[EMITTER].voltage) * this.getBaseCurrent()
+    );
+
+    if (this.powerDissipation > this.powerRating * 2) {
+      this.isBurned = true;
+    }
+
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -1,20 +1,83 @@
 /**
- * Battery Component - Voltage Source
+ * Battery Component - Voltage source with a finite charge
+ *
+ * The open-circuit voltage follows the chemistry's discharge curve as the
+ * state of charge falls, and the internal resistance rises toward empty.
+ * Rechargeable chemistries take charge back when current is driven into the
+ * positive terminal. The ideal chemistry is the plain constant-voltage
+ * source with 0.1 Ω in series and never runs down.
  */
 
 import { Component, ComponentType } from '../core/Component';
 import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export enum BatteryChemistry {
+  IDEAL = 'ideal',
+  ALKALINE = 'alkaline',
+  NIMH = 'nimh',
+  LI_ION = 'li-ion',
+  LEAD_ACID = 'lead-acid'
+}
+
+interface ChemistryPreset {
+  label: string;
+  cellVoltage: number; // Nominal volts per cell
+  // Open-circuit volts per cell against state of charge, ascending; the last
+  // 2% collapses to nothing so a flat battery really stops
+  curve: [number, number][];
+  cellResistance: number; // Ohms per cell when full
+  resistanceGrowth: number; // Extra resistance at empty, as a multiple of the full value
+  capacity: number; // Typical mAh
+  rechargeable: boolean;
+}
+
+const IDEAL_RESISTANCE = 0.1; // Ohms
+
+const PRESETS: Record<BatteryChemistry, ChemistryPreset> = {
+  [BatteryChemistry.IDEAL]: {
+    label: 'Ideal', cellVoltage: 1, curve: [[0, 1], [1, 1]],
+    cellResistance: 0, resistanceGrowth: 0, capacity: Infinity, rechargeable: false
+  },
+  [BatteryChemistry.ALKALINE]: {
+    label: 'Alkaline', cellVoltage: 1.5,
+    curve: [[0, 0], [0.02, 0.9], [0.1, 1.1], [0.3, 1.2], [0.5, 1.27], [0.7, 1.35], [0.9, 1.45], [1, 1.58]],
+    cellResistance: 0.25, resistanceGrowth: 4, capacity: 550, rechargeable: false
+  },
+  [BatteryChemistry.NIMH]: {
+    label: 'NiMH', cellVoltage: 1.2,
+    curve: [[0, 0], [0.02, 1.0], [0.1, 1.18], [0.2, 1.22], [0.5, 1.25], [0.8, 1.3], [0.95, 1.36], [1, 1.4]],
+    cellResistance: 0.03, resistanceGrowth: 1, capacity: 2000, rechargeable: true
+  },
+  [BatteryChemistry.LI_ION]: {
+    label: 'Li-ion', cellVoltage: 3.7,
+    curve: [[0, 0], [0.02, 3.0], [0.05, 3.3], [0.1, 3.45], [0.2, 3.55], [0.4, 3.68], [0.6, 3.8], [0.8, 3.95], [0.9, 4.05], [1, 4.2]],
+    cellResistance: 0.05, resistanceGrowth: 1, capacity: 2500, rechargeable: true
+  },
+  [BatteryChemistry.LEAD_ACID]: {
+    label: 'Lead-acid', cellVoltage: 2.0,
+    curve: [[0, 0], [0.02, 1.75], [0.2, 1.93], [0.4, 1.98], [0.6, 2.03], [0.8, 2.08], [1, 2.13]],
+    cellResistance: 0.01, resistanceGrowth: 1.5, capacity: 7000, rechargeable: true
+  }
+};
 
 export class Battery extends Component {
-  private voltage: number;
-  private internalResistance: number = 0.1; // Ohms
+  private voltage: number; // Nominal pack voltage
+  private chemistry: BatteryChemistry;
+  private internalResistance: number = IDEAL_RESISTANCE; // Ohms when full
+  private capacity: number = Infinity; // mAh
+  private stateOfCharge: number = 1; // 0 (empty) to 1 (full)
+  private rechargeable: boolean = false;
 
-  constructor(position: Vector2, voltage: number = 9) {
+  constructor(position: Vector2, voltage: number = 9, chemistry: BatteryChemistry = BatteryChemistry.IDEAL) {
     super(ComponentType.BATTERY, position);
     this.voltage = voltage;
+    this.chemistry = chemistry;
     this.width = 80;
     this.height = 50;
     this.color = '#2c3e50';
+    this.setChemistry(chemistry);
     this.initializeTerminals();
   }
 
@@ -22,23 +85,19 @@ export class Battery extends Component {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: this.voltage,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -57,18 +116,83 @@ export class Battery extends Component {
     }
   }
 
+  getChemistry(): BatteryChemistry {
+    return this.chemistry;
+  }
+
+  getChemistryLabel(): string {
+    return PRESETS[this.chemistry].label;
+  }
+
+  // Load a chemistry preset: typical capacity, cell resistance and rechargeability
+  setChemistry(chemistry: BatteryChemistry): void {
+    const preset = PRESETS[chemistry];
+    const cells = this.voltage / preset.cellVoltage;
+    this.chemistry = chemistry;
+    this.capacity = preset.capacity;
+    this.rechargeable = preset.rechargeable;
+    this.internalResistance = chemistry === BatteryChemistry.IDEAL ? IDEAL_RESISTANCE : preset.cellResistance * cells;
+  }
+
+  getCapacity(): number {
+    return this.capacity;
+  }
+
+  setCapacity(milliampHours: number): void {
+    this.capacity = Math.max(0.001, milliampHours);
+  }
+
+  getStateOfCharge(): number {
+    return this.stateOfCharge;
+  }
+
+  setStateOfCharge(fraction: number): void {
+    this.stateOfCharge = Math.min(Math.max(fraction, 0), 1);
+  }
+
+  isRechargeable(): boolean {
+    return this.rechargeable;
+  }
+
+  setRechargeable(rechargeable: boolean): void {
+    this.rechargeable = rechargeable;
+  }
+
+  isIdeal(): boolean {
+    return !isFinite(this.capacity);
+  }
+
+  // Internal resistance at the present state of charge
   getResistance(): number {
-    return this.internalResistance;
+    const growth = PRESETS[this.chemistry].resistanceGrowth;
+    const depth = 1 - this.stateOfCharge;
+    return this.internalResistance * (1 + growth * depth * depth);
+  }
+
+  getNominalVoltage(): number {
+    return this.voltage;
   }
 
+  // Open-circuit voltage at the present state of charge
   getVoltage(): number {
-    return this.isBurned ? 0 : this.voltage;
+    if (this.isBurned) return 0;
+
+    const preset = PRESETS[this.chemistry];
+    const curve = preset.curve;
+    let k = 1;
+    while (k < curve.length - 1 && this.stateOfCharge > curve[k][0]) k++;
+    const [soc0, v0] = curve[k - 1];
+    const [soc1, v1] = curve[k];
+    const cellVoltage = v0 + (v1 - v0) * (this.stateOfCharge - soc0) / (soc1 - soc0);
+    return this.voltage * cellVoltage / preset.cellVoltage;
   }
 
+  // Sets the nominal voltage, keeping the chemistry
   setVoltage(voltage: number): void {
     this.voltage = voltage;
+    this.setChemistry(this.chemistry);
     if (this.terminals.length === 2) {
-      this.terminals[1].voltage = voltage;
+      this.terminals[1].voltage = this.getVoltage();
     }
   }
 
@@ -76,9 +200,63 @@ export class Battery extends Component {
     return this.terminals.length === 2 ? this.terminals[0].current : 0;
   }
 
+  getReferenceTerminal(): number | null {
+    return 0;
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    // Ideal source in series with the internal resistance, positive on terminal 1
+    system.stampVoltageSource(
+      system.getNode(this.terminals[1]),
+      system.getNode(this.terminals[0]),
+      system.getBranch(this),
+      this.getVoltage(),
+      this.getResistance()
+    );
+  }
+
+  stampAC(system: ACSystem): void {
+    // A DC source is a short for small signals, leaving the internal resistance
+    system.stampVoltageSource(
+      system.getNode(this.terminals[1]),
+      system.getNode(this.terminals[0]),
+      system.getBranch(this),
+      0,
+      this.getResistance()
+    );
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const current = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[1].current = current;
+    this.terminals[0].current = -current;
+  }
+
+  // Seconds until empty at the present discharge current (Infinity when not discharging)
+  getRuntime(): number {
+    const discharge = this.getCurrent();
+    if (this.isIdeal() || discharge <= 0) return Infinity;
+    return this.stateOfCharge * this.capacity * 3.6 / discharge;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    if (this.isIdeal()) return;
+
+    // Current out of the positive terminal drains the charge; current driven
+    // back in restores it, if the chemistry can take it
+    const discharge = this.getCurrent();
+    if (discharge < 0 && !this.rechargeable) return;
+    const coulombs = this.capacity * 3.6;
+    this.setStateOfCharge(this.stateOfCharge - discharge * system.getTimeStep() / coulombs);
+  }
+
   update(deltaTime: number): void {
     const current = Math.abs(this.getCurrent());
-    this.powerDissipation = current * current * this.internalResistance;
+    this.powerDissipation = current * current * this.getResistance();
     this.updateTemperature(deltaTime);
   }
 }
@@ -0,0 +1,150 @@
+/**
+ * Bulb Component - Incandescent lamp with a tungsten filament
+ *
+ * The filament uses the Component thermal model with a tiny heat capacity,
+ * so its temperature follows the power within a tenth of a second, and its
+ * resistance rises with that temperature. Switched on cold, it draws an
+ * inrush current about ten times the running current.
+ */
+
+import { Component, ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+
+const AMBIENT_TEMPERATURE = 25; // °C
+const RATED_FILAMENT_TEMPERATURE = 2500; // °C at rated voltage
+const GLOW_THRESHOLD = 525; // °C where a filament starts to glow dull red (Draper point)
+const TUNGSTEN_COEFFICIENT = 0.0045; // Resistance rise per °C
+const FILAMENT_TIME_CONSTANT = 0.08; // Seconds
+
+export class Bulb extends Component {
+  private ratedVoltage: number;
+  private ratedPower: number; // Watts at rated voltage
+  private coldResistance: number = 0; // Ohms at ambient temperature
+
+  constructor(position: Vector2, ratedVoltage: number = 9, ratedPower: number = 3) {
+    super(ComponentType.BULB, position);
+    this.ratedVoltage = ratedVoltage;
+    this.ratedPower = ratedPower;
+    this.maxTemperature = 3400; // Tungsten melts
+    this.setRating(ratedVoltage, ratedPower);
+    this.width = 60;
+    this.height = 50;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getRatedVoltage(): number {
+    return this.ratedVoltage;
+  }
+
+  getRatedPower(): number {
+    return this.ratedPower;
+  }
+
+  // Size the filament so it reaches its rated temperature at the rated voltage
+  setRating(ratedVoltage: number, ratedPower: number): void {
+    this.ratedVoltage = Math.max(0.1, ratedVoltage);
+    this.ratedPower = Math.max(0.01, ratedPower);
+
+    const hotResistance = this.ratedVoltage * this.ratedVoltage / this.ratedPower;
+    const rise = RATED_FILAMENT_TEMPERATURE - AMBIENT_TEMPERATURE;
+    this.coldResistance = hotResistance / (1 + TUNGSTEN_COEFFICIENT * rise);
+    this.thermalResistance = rise / this.ratedPower;
+    this.thermalCapacity = FILAMENT_TIME_CONSTANT / this.thermalResistance;
+  }
+
+  getColdResistance(): number {
+    return this.coldResistance;
+  }
+
+  // Filament resistance at its present temperature
+  getResistance(): number {
+    if (this.isBurned) return Infinity;
+    return this.coldResistance * (1 + TUNGSTEN_COEFFICIENT * (this.temperature - AMBIENT_TEMPERATURE));
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 && !this.isBurned ? this.terminals[0].current : 0;
+  }
+
+  // Visible light relative to rated (0 when dark); rises steeply with temperature
+  getBrightness(): number {
+    if (this.isBurned || this.temperature <= GLOW_THRESHOLD) return 0;
+    const glow = (this.temperature - GLOW_THRESHOLD) / (RATED_FILAMENT_TEMPERATURE - GLOW_THRESHOLD);
+    return Math.min(glow * glow, 1.5);
+  }
+
+  // Approximate black-body colour: dull red, through orange, to warm white
+  getGlowColor(): string {
+    const stops: [number, number, number, number][] = [
+      [GLOW_THRESHOLD, 120, 0, 0],
+      [1000, 255, 60, 0],
+      [1700, 255, 150, 40],
+      [RATED_FILAMENT_TEMPERATURE, 255, 225, 160],
+      [3400, 255, 250, 235]
+    ];
+
+    const t = Math.min(Math.max(this.temperature, stops[0][0]), stops[stops.length - 1][0]);
+    let k = 1;
+    while (k < stops.length - 1 && t > stops[k][0]) k++;
+    const [t0, r0, g0, b0] = stops[k - 1];
+    const [t1, r1, g1, b1] = stops[k];
+    const f = (t - t0) / (t1 - t0);
+    return `rgb(${Math.round(r0 + (r1 - r0) * f)}, ${Math.round(g0 + (g1 - g0) * f)}, ${Math.round(b0 + (b1 - b0) * f)})`;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    // The filament reacts within a few timesteps, so heat it at the solver's
+    // rate; the resistance for the next step follows from the new temperature
+    if (this.isBurned) return;
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.getResistance();
+    this.updateTemperature(system.getTimeStep());
+  }
+
+  update(_deltaTime: number): void {
+    // Heating happens per timestep in acceptTimeStep
+  }
+}
@@ -2,14 +2,18 @@
  * Capacitor Component
  */
 
-import { Component, ComponentType } from '../core/Component';
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
 import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { CapacitorCompanion, capacitorCompanion } from '../physics/DeviceModels';
 
 export class Capacitor extends Component {
   private capacitance: number; // Farads
   private charge: number = 0; // Coulombs
   private maxVoltage: number; // Voltage rating
   private esr: number = 0.1; // Equivalent Series Resistance
+  private previousCurrent: number = 0; // History term for trapezoidal integration
 
   constructor(position: Vector2, capacitance: number = 0.0001) {
     super(ComponentType.CAPACITOR, position);
@@ -25,23 +29,19 @@ export class Capacitor extends Component {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -81,21 +81,80 @@ export class Capacitor extends Component {
     return this.charge;
   }
 
+  getCouplings(): TerminalCoupling[] {
+    return this.isBurned ? [] : [{ from: 0, to: 1, kind: CouplingKind.CAPACITIVE }];
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    const pos = system.getNode(this.terminals[0]);
+    const neg = system.getNode(this.terminals[1]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+      return;
+    }
+
+    // At DC a capacitor is open: pin its branch current to zero
+    if (system.getAnalysisMode() === AnalysisMode.DC) {
+      system.stampMatrix(branch, branch, 1);
+      return;
+    }
+
+    // Companion model: the discretized capacitor is a voltage source behind
+    // a resistance, which merges with the ESR into a single branch
+    const { voltage, resistance } = this.companion(system);
+    system.stampVoltageSource(pos, neg, branch, voltage, resistance + this.esr);
+  }
+
+  stampAC(system: ACSystem): void {
+    const pos = system.getNode(this.terminals[0]);
+    const neg = system.getNode(this.terminals[1]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+      return;
+    }
+
+    // Z = ESR + 1/(jωC)
+    system.stampVoltageSource(pos, neg, branch, 0, this.esr, -1 / (system.getOmega() * this.capacitance));
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const current = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    // Plate voltage at the end of the step follows from the companion model
+    const current = this.getCurrent();
+    const { voltage, resistance } = this.companion(system);
+    this.charge = (voltage + current * resistance) * this.capacitance;
+    this.previousCurrent = current;
+  }
+
+  private companion(system: MNASystem): CapacitorCompanion {
+    return capacitorCompanion(this.capacitance, this.getVoltage(), this.previousCurrent,
+      system.getTimeStep(), system.getIntegrationMethod());
+  }
+
   update(deltaTime: number): void {
+    // Charge is integrated by the solver each timestep; check the voltage rating
     if (this.terminals.length === 2 && !this.isBurned) {
-      // I = dQ/dt, so Q += I * dt
-      const current = (this.terminals[0].voltage - this.terminals[1].voltage) / this.esr;
-      this.charge += current * deltaTime;
-
-      // Limit charge based on voltage rating
       const maxCharge = this.maxVoltage * this.capacitance;
       if (Math.abs(this.charge) > maxCharge) {
         this.isBurned = true;
         this.charge = 0;
+        this.previousCurrent = 0;
       }
-
-      this.terminals[0].current = current;
-      this.terminals[1].current = -current;
     }
 
     this.powerDissipation = this.getCurrent() * this.getCurrent() * this.esr;
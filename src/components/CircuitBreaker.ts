@@ -0,0 +1,152 @@
+/**
+ * Circuit Breaker - Thermal-magnetic overcurrent protection
+ *
+ * Trips instantly above a multiple of its rating (magnetic trip) and after
+ * a delay under sustained overload (thermal trip, an I²t integral that
+ * cools off below the rating). A tripped breaker stays open until reset;
+ * it can also be switched off and on by hand.
+ */
+
+import { Component, ComponentType, Toggleable } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+
+export class CircuitBreaker extends Component implements Toggleable {
+  private ratedCurrent: number; // Carried indefinitely (A)
+  private instantTripMultiple: number = 5; // Magnetic trip above this many times the rating
+  private thermalTripIntegral: number; // Excess I²t for the thermal trip (A²s)
+  private closedResistance: number = 0.02; // Ohms
+  private openResistance: number = 1e9; // Very high when open
+  private heat: number = 0; // Excess I²t accumulated by the bimetal (A²s)
+  private closed: boolean = true;
+  private tripped: boolean = false;
+
+  constructor(position: Vector2, ratedCurrent: number = 1) {
+    super(ComponentType.CIRCUIT_BREAKER, position);
+    this.ratedCurrent = ratedCurrent;
+    // About a second at twice the rating
+    this.thermalTripIntegral = 3 * ratedCurrent * ratedCurrent;
+    this.width = 60;
+    this.height = 40;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getRatedCurrent(): number {
+    return this.ratedCurrent;
+  }
+
+  // Keeps the thermal trip at about a second for twice the new rating
+  setRatedCurrent(current: number): void {
+    this.ratedCurrent = Math.max(0, current);
+    this.thermalTripIntegral = 3 * this.ratedCurrent * this.ratedCurrent;
+  }
+
+  getInstantTripMultiple(): number {
+    return this.instantTripMultiple;
+  }
+
+  setInstantTripMultiple(multiple: number): void {
+    this.instantTripMultiple = Math.max(1, multiple);
+  }
+
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  isTripped(): boolean {
+    return this.tripped;
+  }
+
+  // How far the bimetal has moved toward a thermal trip (0-1)
+  getThermalFraction(): number {
+    return this.thermalTripIntegral > 0 ? Math.min(this.heat / this.thermalTripIntegral, 1) : 0;
+  }
+
+  // Close again after a trip; a bimetal that is still hot trips again sooner
+  reset(): void {
+    this.tripped = false;
+    this.closed = true;
+  }
+
+  // Double-click: reset a tripped breaker, otherwise switch it off or on
+  toggle(): void {
+    if (this.tripped) {
+      this.reset();
+    } else {
+      this.closed = !this.closed;
+    }
+  }
+
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 2 + (this.closed ? 1 : 0);
+  }
+
+  getResistance(): number {
+    return this.closed ? this.closedResistance : this.openResistance;
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    // Open, the bimetal cools as it would with no current flowing
+    const current = this.closed ? Math.abs(this.getCurrent()) : 0;
+    const excess = current * current - this.ratedCurrent * this.ratedCurrent;
+    this.heat = Math.max(0, this.heat + excess * system.getTimeStep());
+    if (!this.closed) return;
+
+    if (current > this.instantTripMultiple * this.ratedCurrent || this.heat >= this.thermalTripIntegral) {
+      this.tripped = true;
+      this.closed = false;
+    }
+  }
+
+  update(deltaTime: number): void {
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.getResistance();
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Controlled Source - VCVS, VCCS, CCVS or CCCS
+ *
+ * Terminals: 0 = output +, 1 = output -, 2 = control +, 3 = control -.
+ * Voltage control senses V(control +) - V(control -) without loading it;
+ * current control passes the sensed current through a 0 V source from
+ * control + to control -.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export enum ControlledSourceKind {
+  VCVS = 'vcvs', // Gain in V/V
+  VCCS = 'vccs', // Gain in A/V (transconductance)
+  CCVS = 'ccvs', // Gain in V/A (transresistance)
+  CCCS = 'cccs'  // Gain in A/A
+}
+
+export const OUTPUT_POSITIVE = 0;
+export const OUTPUT_NEGATIVE = 1;
+export const CONTROL_POSITIVE = 2;
+export const CONTROL_NEGATIVE = 3;
+
+export class ControlledSource extends Component {
+  private readonly kind: ControlledSourceKind; // Fixed: it decides the branch layout
+  private gain: number;
+
+  constructor(position: Vector2, kind: ControlledSourceKind = ControlledSourceKind.VCVS, gain: number = 10) {
+    super(ComponentType.CONTROLLED_SOURCE, position);
+    this.kind = kind;
+    this.gain = gain;
+    this.width = 70;
+    this.height = 50;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = this.getTerminalOffsets().map(offset => ({
+      position: this.toWorld(offset),
+      id: this.generateTerminalId(),
+      voltage: 0,
+      current: 0
+    }));
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 4) {
+      this.getTerminalOffsets().forEach((offset, k) => {
+        this.terminals[k].position = this.toWorld(offset);
+      });
+    }
+  }
+
+  // Output pair on the right, control pair on the left, positive on top
+  private getTerminalOffsets(): Vector2[] {
+    return [
+      new Vector2(this.width / 2, -this.height / 4),
+      new Vector2(this.width / 2, this.height / 4),
+      new Vector2(-this.width / 2, -this.height / 4),
+      new Vector2(-this.width / 2, this.height / 4)
+    ];
+  }
+
+  getKind(): ControlledSourceKind {
+    return this.kind;
+  }
+
+  getGain(): number {
+    return this.gain;
+  }
+
+  setGain(gain: number): void {
+    this.gain = gain;
+  }
+
+  isVoltageOutput(): boolean {
+    return this.kind === ControlledSourceKind.VCVS || this.kind === ControlledSourceKind.CCVS;
+  }
+
+  isCurrentControlled(): boolean {
+    return this.kind === ControlledSourceKind.CCVS || this.kind === ControlledSourceKind.CCCS;
+  }
+
+  getResistance(): number {
+    return Infinity;
+  }
+
+  // Output voltage
+  getVoltage(): number {
+    if (this.terminals.length === 4) {
+      return this.terminals[OUTPUT_POSITIVE].voltage - this.terminals[OUTPUT_NEGATIVE].voltage;
+    }
+    return 0;
+  }
+
+  // Output current, positive into output +
+  getCurrent(): number {
+    return this.terminals.length === 4 ? this.terminals[OUTPUT_POSITIVE].current : 0;
+  }
+
+  // The sensed voltage or current
+  getControlValue(): number {
+    if (this.isCurrentControlled()) return this.terminals[CONTROL_POSITIVE].current;
+    return this.terminals[CONTROL_POSITIVE].voltage - this.terminals[CONTROL_NEGATIVE].voltage;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    const couplings: TerminalCoupling[] = [{
+      from: OUTPUT_POSITIVE,
+      to: OUTPUT_NEGATIVE,
+      kind: this.isVoltageOutput() ? CouplingKind.VOLTAGE_SOURCE : CouplingKind.CURRENT_SOURCE
+    }];
+
+    if (this.isCurrentControlled()) {
+      couplings.push({ from: CONTROL_POSITIVE, to: CONTROL_NEGATIVE, kind: CouplingKind.VOLTAGE_SOURCE });
+    }
+    return couplings;
+  }
+
+  // Sense branch first (current control), then the output branch (voltage output)
+  getBranchCount(): number {
+    return (this.isCurrentControlled() ? 1 : 0) + (this.isVoltageOutput() ? 1 : 0);
+  }
+
+  stamp(system: MNASystem): void {
+    const [outPos, outNeg, ctrlPos, ctrlNeg] = this.terminals.map(t => system.getNode(t));
+
+    switch (this.kind) {
+      case ControlledSourceKind.VCVS:
+        system.stampVCVS(outPos, outNeg, system.getBranch(this), ctrlPos, ctrlNeg, this.gain);
+        break;
+      case ControlledSourceKind.VCCS:
+        system.stampVCCS(outPos, outNeg, ctrlPos, ctrlNeg, this.gain);
+        break;
+      case ControlledSourceKind.CCVS: {
+        const sense = system.getBranch(this, 0);
+        system.stampVoltageSource(ctrlPos, ctrlNeg, sense, 0);
+        system.stampCCVS(outPos, outNeg, system.getBranch(this, 1), sense, this.gain);
+        break;
+      }
+      case ControlledSourceKind.CCCS: {
+        const sense = system.getBranch(this, 0);
+        system.stampVoltageSource(ctrlPos, ctrlNeg, sense, 0);
+        system.stampCCCS(outPos, outNeg, sense, this.gain);
+        break;
+      }
+    }
+  }
+
+  stampAC(system: ACSystem): void {
+    const [outPos, outNeg, ctrlPos, ctrlNeg] = this.terminals.map(t => system.getNode(t));
+
+    switch (this.kind) {
+      case ControlledSourceKind.VCVS:
+        system.stampVCVS(outPos, outNeg, system.getBranch(this), ctrlPos, ctrlNeg, this.gain);
+        break;
+      case ControlledSourceKind.VCCS:
+        system.stampVCCS(outPos, outNeg, ctrlPos, ctrlNeg, this.gain);
+        break;
+      case ControlledSourceKind.CCVS: {
+        const sense = system.getBranch(this, 0);
+        system.stampVoltageSource(ctrlPos, ctrlNeg, sense, 0);
+        system.stampCCVS(outPos, outNeg, system.getBranch(this, 1), sense, this.gain);
+        break;
+      }
+      case ControlledSourceKind.CCCS: {
+        const sense = system.getBranch(this, 0);
+        system.stampVoltageSource(ctrlPos, ctrlNeg, sense, 0);
+        system.stampCCCS(outPos, outNeg, sense, this.gain);
+        break;
+      }
+    }
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const ctrlPos = this.terminals[CONTROL_POSITIVE].voltage;
+    const ctrlNeg = this.terminals[CONTROL_NEGATIVE].voltage;
+    const sensed = this.isCurrentControlled() ? system.getBranchCurrent(system.getBranch(this, 0)) : 0;
+    this.terminals[CONTROL_POSITIVE].current = sensed;
+    this.terminals[CONTROL_NEGATIVE].current = -sensed;
+
+    let output: number;
+    if (this.isVoltageOutput()) {
+      output = system.getBranchCurrent(system.getBranch(this, this.isCurrentControlled() ? 1 : 0));
+    } else {
+      // The source draws its current out of output + through itself
+      output = this.gain * (this.kind === ControlledSourceKind.VCCS ? ctrlPos - ctrlNeg : sensed);
+    }
+    this.terminals[OUTPUT_POSITIVE].current = output;
+    this.terminals[OUTPUT_NEGATIVE].current = -output;
+  }
+
+  update(_deltaTime: number): void {
+    // Ideal source: no losses, no heating
+    this.powerDissipation = 0;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Current Source - Constant current with a compliance voltage
+ *
+ * Drives its set current from terminal 0 through itself and out of
+ * terminal 1, developing whatever voltage the load needs, up to the
+ * compliance voltage. Past that it holds the compliance voltage and delivers
+ * what current it can, like a real bench supply in constant-current mode.
+ * An infinite compliance gives the ideal source.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export class CurrentSource extends Component {
+  private current: number; // Set current (A)
+  private complianceVoltage: number; // Largest |V(1) - V(0)| it can develop (V)
+  private limit: number = 0; // +1 / -1 while held at +/- compliance, else 0
+  private lastVoltage: number = 0; // Voltage across the source at the previous iterate
+
+  constructor(position: Vector2, current: number = 0.02, complianceVoltage: number = 24) {
+    super(ComponentType.CURRENT_SOURCE, position);
+    this.current = current;
+    this.complianceVoltage = complianceVoltage;
+    this.width = 60;
+    this.height = 40;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getSetCurrent(): number {
+    return this.current;
+  }
+
+  setCurrent(current: number): void {
+    this.current = current;
+  }
+
+  getComplianceVoltage(): number {
+    return this.complianceVoltage;
+  }
+
+  // Infinity makes the source ideal
+  setComplianceVoltage(volts: number): void {
+    this.complianceVoltage = Math.max(0, volts);
+  }
+
+  isIdeal(): boolean {
+    return !isFinite(this.complianceVoltage);
+  }
+
+  // True while the load needs more voltage than the source can give
+  isInCompliance(): boolean {
+    return this.limit !== 0;
+  }
+
+  getResistance(): number {
+    return Infinity;
+  }
+
+  // Voltage developed across the source, positive on terminal 1
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[1].voltage - this.terminals[0].voltage;
+    }
+    return 0;
+  }
+
+  // Current delivered out of terminal 1
+  getCurrent(): number {
+    return this.terminals.length === 2 ? -this.terminals[1].current : 0;
+  }
+
+  getReferenceTerminal(): number | null {
+    return 0;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    // With a finite compliance an open load just clamps, so only the ideal
+    // source can leave a node's voltage undefined
+    return [{ from: 0, to: 1, kind: this.isIdeal() ? CouplingKind.CURRENT_SOURCE : CouplingKind.CONDUCTIVE }];
+  }
+
+  isNonlinear(): boolean {
+    return !this.isIdeal();
+  }
+
+  // The branch carries the source current (positive into terminal 1), so
+  // both modes share one unknown
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    const pos = system.getNode(this.terminals[1]);
+    const neg = system.getNode(this.terminals[0]);
+    const branch = system.getBranch(this);
+
+    // Switch to the compliance clamp when the load asks for more voltage, and
+    // back once the clamped source would deliver at least the set current.
+    // Diode loads pass far above the compliance while they are still turning
+    // on, so only clamp once the voltage has settled there
+    if (!this.isIdeal()) {
+      const voltage = system.getVoltage(pos) - system.getVoltage(neg);
+      const delivered = -system.getBranchCurrent(branch);
+      if (this.limit === 0) {
+        if (Math.abs(voltage) > this.complianceVoltage) {
+          if (Math.abs(voltage - this.lastVoltage) <= 1e-3 * Math.abs(voltage)) {
+            this.limit = Math.sign(voltage);
+          } else {
+            system.markLimited();
+          }
+        }
+      } else if ((this.limit > 0 && delivered >= this.current) || (this.limit < 0 && delivered <= this.current)) {
+        this.limit = 0;
+      }
+      this.lastVoltage = voltage;
+    }
+
+    system.stampMatrix(pos, branch, 1);
+    system.stampMatrix(neg, branch, -1);
+    if (this.limit !== 0) {
+      system.stampMatrix(branch, pos, 1);
+      system.stampMatrix(branch, neg, -1);
+      system.stampRHS(branch, this.limit * this.complianceVoltage);
+    } else {
+      system.stampMatrix(branch, branch, 1);
+      system.stampRHS(branch, -this.current);
+    }
+  }
+
+  getSolverState(): number[] {
+    return [this.limit, this.lastVoltage];
+  }
+
+  setSolverState(state: number[]): void {
+    [this.limit, this.lastVoltage] = state;
+  }
+
+  stampAC(system: ACSystem): void {
+    // Small-signal: open while regulating, a short while clamped
+    const pos = system.getNode(this.terminals[1]);
+    const neg = system.getNode(this.terminals[0]);
+    const branch = system.getBranch(this);
+
+    system.stampMatrix(pos, branch, 1);
+    system.stampMatrix(neg, branch, -1);
+    if (this.limit !== 0) {
+      system.stampMatrix(branch, pos, 1);
+      system.stampMatrix(branch, neg, -1);
+    } else {
+      system.stampMatrix(branch, branch, 1);
+    }
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const current = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[1].current = current;
+    this.terminals[0].current = -current;
+  }
+
+  update(_deltaTime: number): void {
+    // Ideal source: no losses, no heating
+    this.powerDissipation = 0;
+  }
+}
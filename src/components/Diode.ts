@@ -0,0 +1,216 @@
+/**
+ * Diode Component - General-purpose rectifier with reverse breakdown
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { THERMAL_VOLTAGE, junction, criticalVoltage, limitJunctionVoltage } from '../physics/DeviceModels';
+
+export class Diode extends Component {
+  protected saturationCurrent: number = 14e-9; // Is (A), 1N4001-class rectifier
+  protected emissionCoefficient: number = 1.9; // Ideality factor n
+  protected breakdownVoltage: number; // Reverse voltage where avalanche starts (V)
+  protected breakdownCurrent: number = 10e-6; // Reverse current at the knee (A)
+  protected breakdownEmission: number = 1; // Sharpness of the breakdown knee
+  protected powerRating: number = 1; // Watts
+  private junctionVoltage: number = 0; // Last linearization point (anode - cathode)
+  private companionConductance: number = 0;
+  private companionCurrent: number = 0;
+
+  constructor(position: Vector2, breakdownVoltage: number = 50, type: ComponentType = ComponentType.DIODE) {
+    super(type, position);
+    this.breakdownVoltage = breakdownVoltage;
+    this.width = 60;
+    this.height = 30;
+    this.maxTemperature = 150;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getResistance(): number {
+    if (this.isBurned) return Infinity;
+
+    // Static resistance V/I at the present operating point
+    const current = this.getCurrent();
+    return Math.abs(current) > 1e-12 ? this.getVoltage() / current : Infinity;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    return this.isBurned ? [] : [{ from: 0, to: 1, kind: CouplingKind.CONDUCTIVE }];
+  }
+
+  isNonlinear(): boolean {
+    return true;
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    const anode = system.getNode(this.terminals[0]);
+    const cathode = system.getNode(this.terminals[1]);
+    const nVt = this.emissionCoefficient * THERMAL_VOLTAGE;
+    const breakdownNVt = this.breakdownEmission * THERMAL_VOLTAGE;
+    const vNew = system.getVoltage(anode) - system.getVoltage(cathode);
+
+    // Limit whichever junction is heading into its exponential region
+    if (vNew >= -this.breakdownVoltage / 2) {
+      const vCrit = criticalVoltage(this.saturationCurrent, nVt);
+      this.junctionVoltage = limitJunctionVoltage(vNew, this.junctionVoltage, nVt, vCrit);
+    } else {
+      const vCrit = criticalVoltage(this.breakdownCurrent, breakdownNVt);
+      const reverseOld = -this.junctionVoltage - this.breakdownVoltage;
+      const reverse = limitJunctionVoltage(-vNew - this.breakdownVoltage, reverseOld, breakdownNVt, vCrit);
+      this.junctionVoltage = -reverse - this.breakdownVoltage;
+    }
+    if (this.junctionVoltage !== vNew) system.markLimited();
+
+    const { current, conductance } = this.linearize(this.junctionVoltage);
+    this.companionConductance = conductance;
+    this.companionCurrent = current - conductance * this.junctionVoltage;
+
+    system.stampConductance(anode, cathode, this.companionConductance);
+    system.stampCurrentSource(anode, cathode, this.companionCurrent);
+  }
+
+  stampAC(system: ACSystem): void {
+    if (this.isBurned) return;
+
+    system.stampAdmittance(
+      system.getNode(this.terminals[0]),
+      system.getNode(this.terminals[1]),
+      this.companionConductance
+    );
+  }
+
+  // Forward Shockley junction plus a mirrored exponential past the breakdown voltage
+  private linearize(voltage: number): { current: number; conductance: number } {
+    const nVt = this.emissionCoefficient * THERMAL_VOLTAGE;
+    const forward = junction(voltage, this.saturationCurrent, nVt);
+    const reverse = junction(
+      -voltage - this.breakdownVoltage,
+      this.breakdownCurrent,
+      this.breakdownEmission * THERMAL_VOLTAGE
+    );
+
+    // Breakdown current is Ibv·exp(...) without Shockley's -1, so it vanishes at zero bias
+    return {
+      current: forward.current - (reverse.current + this.breakdownCurrent),
+      conductance: forward.conductance + reverse.conductance
+    };
+  }
+
+  getSolverState(): number[] {
+    return [this.junctionVoltage, this.companionConductance, this.companionCurrent];
+  }
+
+  setSolverState(state: number[]): void {
+    [this.junctionVoltage, this.companionConductance, this.companionCurrent] = state;
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    const current = this.isBurned
+      ? 0
+      : this.companionConductance * this.getVoltage() + this.companionCurrent;
+
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    if (this.terminals.length === 2 && !this.isBurned) {
+      return this.terminals[0].current;
+    }
+    return 0;
+  }
+
+  getSaturationCurrent(): number {
+    return this.saturationCurrent;
+  }
+
+  setSaturationCurrent(current: number): void {
+    this.saturationCurrent = Math.max(1e-18, current);
+  }
+
+  getEmissionCoefficient(): number {
+    return this.emissionCoefficient;
+  }
+
+  setEmissionCoefficient(n: number): void {
+    this.emissionCoefficient = Math.max(0.5, n);
+  }
+
+  getBreakdownVoltage(): number {
+    return this.breakdownVoltage;
+  }
+
+  setBreakdownVoltage(voltage: number): void {
+    this.breakdownVoltage = Math.max(0.1, voltage);
+  }
+
+  getPowerRating(): number {
+    return this.powerRating;
+  }
+
+  setPowerRating(watts: number): void {
+    this.powerRating = Math.max(0.01, watts);
+  }
+
+  // True while the reverse current is carried by avalanche rather than leakage
+  isInBreakdown(): boolean {
+    return this.getVoltage() < -this.breakdownVoltage / 2 && this.getCurrent() < -1e-6;
+  }
+
+  update(deltaTime: number): void {
+    this.powerDissipation = Math.abs(this.getVoltage() * this.getCurrent());
+
+    // Burn out at twice the rated power, like the resistor
+    if (this.powerDissipation > this.powerRating * 2) {
+      this.isBurned = true;
+    }
+
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -0,0 +1,177 @@
+/**
+ * Double-Throw Switch - SPDT or DPDT changeover switch
+ *
+ * Each pole connects its common terminal to one of two throws, and all poles
+ * change over together. Terminals come in threes per pole: common, throw A,
+ * throw B (see poleTerminal). Two SPDTs make a staircase light; a DPDT
+ * wired crosswise reverses a motor.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling, Toggleable } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export const COMMON = 0;
+export const THROW_A = 1;
+export const THROW_B = 2;
+
+const POLE_PITCH = 40; // Vertical spacing between poles on the canvas
+const THROW_SPREAD = 12; // Throws sit this far above and below their common
+
+// Index of a pole's common, throw A or throw B terminal
+export function poleTerminal(pole: number, contact: number): number {
+  return pole * 3 + contact;
+}
+
+export class DoubleThrowSwitch extends Component implements Toggleable {
+  private poles: number;
+  private thrownToB: boolean = false; // Commons connect to throw A until switched
+  private closedResistance: number = 0.01; // Almost zero when closed
+  private openResistance: number = 1e9; // Very high when open
+
+  constructor(position: Vector2, poles: number = 1) {
+    super(ComponentType.DOUBLE_THROW_SWITCH, position);
+    this.poles = Math.max(1, Math.round(poles));
+    this.width = 60;
+    this.height = POLE_PITCH * this.poles + 10;
+    this.color = '#7f8c8d';
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = this.getTerminalOffsets().map(offset => ({
+      position: this.toWorld(offset),
+      id: this.generateTerminalId(),
+      voltage: 0,
+      current: 0
+    }));
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === this.poles * 3) {
+      this.getTerminalOffsets().forEach((offset, k) => {
+        this.terminals[k].position = this.toWorld(offset);
+      });
+    }
+  }
+
+  // Commons on the left, each pole's throws on the right (A above, B below)
+  private getTerminalOffsets(): Vector2[] {
+    const offsets: Vector2[] = [];
+    for (let pole = 0; pole < this.poles; pole++) {
+      const y = this.getPoleOffset(pole);
+      offsets.push(
+        new Vector2(-this.width / 2, y),
+        new Vector2(this.width / 2, y - THROW_SPREAD),
+        new Vector2(this.width / 2, y + THROW_SPREAD)
+      );
+    }
+    return offsets;
+  }
+
+  // Vertical offset of a pole's common from the centre
+  getPoleOffset(pole: number): number {
+    return (pole - (this.poles - 1) / 2) * POLE_PITCH;
+  }
+
+  getThrowSpread(): number {
+    return THROW_SPREAD;
+  }
+
+  getPoleCount(): number {
+    return this.poles;
+  }
+
+  toggle(): void {
+    this.thrownToB = !this.thrownToB;
+  }
+
+  setThrownToB(thrownToB: boolean): void {
+    this.thrownToB = thrownToB;
+  }
+
+  isThrownToB(): boolean {
+    return this.thrownToB;
+  }
+
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 2 + (this.thrownToB ? 1 : 0);
+  }
+
+  private getThrowResistance(contact: number): number {
+    return (contact === THROW_B) === this.thrownToB ? this.closedResistance : this.openResistance;
+  }
+
+  // Resistance through the closed side of a pole
+  getResistance(): number {
+    return this.closedResistance;
+  }
+
+  // Voltage from the first pole's common to the throw it is on
+  getVoltage(): number {
+    if (this.terminals.length === this.poles * 3) {
+      const selected = this.thrownToB ? THROW_B : THROW_A;
+      return this.terminals[COMMON].voltage - this.terminals[selected].voltage;
+    }
+    return 0;
+  }
+
+  // Current into the first pole's common
+  getCurrent(): number {
+    return this.terminals.length === this.poles * 3 ? this.terminals[COMMON].current : 0;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    const couplings: TerminalCoupling[] = [];
+    for (let pole = 0; pole < this.poles; pole++) {
+      for (const contact of [THROW_A, THROW_B]) {
+        couplings.push({ from: poleTerminal(pole, COMMON), to: poleTerminal(pole, contact), kind: CouplingKind.CONDUCTIVE });
+      }
+    }
+    return couplings;
+  }
+
+  stamp(system: MNASystem): void {
+    for (let pole = 0; pole < this.poles; pole++) {
+      const common = system.getNode(this.terminals[poleTerminal(pole, COMMON)]);
+      for (const contact of [THROW_A, THROW_B]) {
+        system.stampConductance(common, system.getNode(this.terminals[poleTerminal(pole, contact)]),
+          1 / this.getThrowResistance(contact));
+      }
+    }
+  }
+
+  stampAC(system: ACSystem): void {
+    for (let pole = 0; pole < this.poles; pole++) {
+      const common = system.getNode(this.terminals[poleTerminal(pole, COMMON)]);
+      for (const contact of [THROW_A, THROW_B]) {
+        system.stampAdmittance(common, system.getNode(this.terminals[poleTerminal(pole, contact)]),
+          1 / this.getThrowResistance(contact));
+      }
+    }
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    for (let pole = 0; pole < this.poles; pole++) {
+      const common = this.terminals[poleTerminal(pole, COMMON)];
+      let total = 0;
+      for (const contact of [THROW_A, THROW_B]) {
+        const terminal = this.terminals[poleTerminal(pole, contact)];
+        terminal.current = (terminal.voltage - common.voltage) / this.getThrowResistance(contact);
+        total += terminal.current;
+      }
+      common.current = -total;
+    }
+  }
+
+  update(deltaTime: number): void {
+    let power = 0;
+    for (let pole = 0; pole < this.poles; pole++) {
+      const current = this.terminals[poleTerminal(pole, COMMON)].current;
+      power += current * current * this.closedResistance;
+    }
+    this.powerDissipation = power;
+    this.updateTemperature(deltaTime);
+  }
+}
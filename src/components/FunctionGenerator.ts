@@ -0,0 +1,235 @@
+/**
+ * Function Generator - Time-varying voltage source
+ *
+ * Sine, square, triangle, sawtooth or PWM output around a DC offset, behind
+ * a 50 Ω output resistance. The waveform is evaluated at the end of every
+ * physics timestep, and the phase is accumulated rather than derived from
+ * absolute time, so changing the frequency never makes the output jump.
+ * Sampling once per 1 ms step limits the frequency to MAX_FREQUENCY: above
+ * half the step rate the output aliases, and at 1 kHz a sine would read the
+ * same voltage every step.
+ */
+
+import { Component, ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export enum Waveform {
+  SINE = 'sine',
+  SQUARE = 'square',
+  TRIANGLE = 'triangle',
+  SAWTOOTH = 'sawtooth',
+  PWM = 'pwm' // Switches between the offset and offset + amplitude
+}
+
+export const MAX_FREQUENCY = 400; // Hz, 2.5 solver steps per cycle
+
+// 1-2-5 sequence the frequency steps through from the UI (Hz)
+const FREQUENCY_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, MAX_FREQUENCY];
+
+export class FunctionGenerator extends Component {
+  private waveform: Waveform;
+  private amplitude: number; // Peak voltage (V); PWM swings this far above the offset
+  private frequency: number; // Hz
+  private offset: number = 0; // DC level (V)
+  private dutyCycle: number = 0.5; // Fraction of each PWM cycle spent high
+  private outputResistance: number = 50; // Ohms
+
+  private phase: number = 0; // Position within the cycle (0-1) at the end of the last timestep
+
+  constructor(position: Vector2, waveform: Waveform = Waveform.SINE, amplitude: number = 5, frequency: number = 1) {
+    super(ComponentType.FUNCTION_GENERATOR, position);
+    this.waveform = waveform;
+    this.amplitude = amplitude;
+    this.frequency = 0;
+    this.setFrequency(frequency);
+    this.width = 80;
+    this.height = 50;
+    this.color = '#2c3e50';
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getWaveform(): Waveform {
+    return this.waveform;
+  }
+
+  setWaveform(waveform: Waveform): void {
+    this.waveform = waveform;
+  }
+
+  // Step to the next waveform, for the double-click selector
+  cycleWaveform(): void {
+    const waveforms = Object.values(Waveform);
+    this.waveform = waveforms[(waveforms.indexOf(this.waveform) + 1) % waveforms.length];
+  }
+
+  getAmplitude(): number {
+    return this.amplitude;
+  }
+
+  setAmplitude(volts: number): void {
+    this.amplitude = Math.max(0, volts);
+  }
+
+  getFrequency(): number {
+    return this.frequency;
+  }
+
+  setFrequency(hertz: number): void {
+    this.frequency = Math.min(Math.max(0, hertz), MAX_FREQUENCY);
+  }
+
+  // Move up (positive) or down the 1-2-5 sequence, for the scroll-wheel control
+  stepFrequency(steps: number): void {
+    const nearest = FREQUENCY_STEPS.reduce((best, f, i) =>
+      Math.abs(Math.log(f / this.frequency)) < Math.abs(Math.log(FREQUENCY_STEPS[best] / this.frequency)) ? i : best, 0);
+    const index = Math.min(Math.max(nearest + steps, 0), FREQUENCY_STEPS.length - 1);
+    this.setFrequency(FREQUENCY_STEPS[index]);
+  }
+
+  getOffset(): number {
+    return this.offset;
+  }
+
+  setOffset(volts: number): void {
+    this.offset = volts;
+  }
+
+  getDutyCycle(): number {
+    return this.dutyCycle;
+  }
+
+  setDutyCycle(fraction: number): void {
+    this.dutyCycle = Math.min(Math.max(fraction, 0), 1);
+  }
+
+  getPhase(): number {
+    return this.phase;
+  }
+
+  getResistance(): number {
+    return this.outputResistance;
+  }
+
+  setOutputResistance(resistance: number): void {
+    this.outputResistance = Math.max(0, resistance);
+  }
+
+  // Source voltage at the present phase
+  getVoltage(): number {
+    return this.getVoltageAt(this.phase);
+  }
+
+  // Source voltage at a point in the cycle (0-1)
+  getVoltageAt(phase: number): number {
+    if (this.isBurned) return 0;
+    return this.offset + this.amplitude * this.getShape(phase - Math.floor(phase));
+  }
+
+  // Normalized waveform; all but PWM start at zero and rise, like a sine
+  private getShape(phase: number): number {
+    switch (this.waveform) {
+      case Waveform.SINE:
+        return Math.sin(2 * Math.PI * phase);
+      case Waveform.SQUARE:
+        return phase < 0.5 ? 1 : -1;
+      case Waveform.TRIANGLE:
+        return phase < 0.25 ? 4 * phase : phase < 0.75 ? 2 - 4 * phase : 4 * phase - 4;
+      case Waveform.SAWTOOTH:
+        return phase < 0.5 ? 2 * phase : 2 * phase - 2;
+      case Waveform.PWM:
+        return phase < this.dutyCycle ? 1 : 0;
+    }
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  getReferenceTerminal(): number | null {
+    return 0;
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    // A transient step solves for the end of the step; DC holds the present value
+    const phase = system.getAnalysisMode() === AnalysisMode.TRANSIENT
+      ? this.phase + this.frequency * system.getTimeStep()
+      : this.phase;
+
+    system.stampVoltageSource(
+      system.getNode(this.terminals[1]),
+      system.getNode(this.terminals[0]),
+      system.getBranch(this),
+      this.getVoltageAt(phase),
+      this.outputResistance
+    );
+  }
+
+  stampAC(system: ACSystem): void {
+    // Like a battery, the generator is its output resistance for small signals
+    system.stampVoltageSource(
+      system.getNode(this.terminals[1]),
+      system.getNode(this.terminals[0]),
+      system.getBranch(this),
+      0,
+      this.outputResistance
+    );
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const current = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[1].current = current;
+    this.terminals[0].current = -current;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    const phase = this.phase + this.frequency * system.getTimeStep();
+    this.phase = phase - Math.floor(phase);
+  }
+
+  update(deltaTime: number): void {
+    const current = Math.abs(this.getCurrent());
+    this.powerDissipation = current * current * this.outputResistance;
+    this.updateTemperature(deltaTime);
+  }
+}
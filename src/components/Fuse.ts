@@ -0,0 +1,134 @@
+/**
+ * Fuse Component - Blows when the let-through I²t exceeds its rating
+ *
+ * The element carries its rated current indefinitely. Above that, the excess
+ * I² is integrated every physics timestep; once it reaches the melting I²t
+ * the fuse opens for good, until it is replaced.
+ */
+
+import { Component, ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+
+export class Fuse extends Component {
+  private ratedCurrent: number; // Carried indefinitely (A)
+  private meltingIntegral: number; // Excess I²t that melts the element (A²s)
+  private elementResistance: number = 0.05; // Ohms
+  private openResistance: number = 1e9; // Very high once blown
+  private heat: number = 0; // Excess I²t accumulated so far (A²s)
+  private blown: boolean = false;
+
+  constructor(position: Vector2, ratedCurrent: number = 1, meltingIntegral: number = 0.1) {
+    super(ComponentType.FUSE, position);
+    this.ratedCurrent = ratedCurrent;
+    this.meltingIntegral = meltingIntegral;
+    this.width = 60;
+    this.height = 24;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getRatedCurrent(): number {
+    return this.ratedCurrent;
+  }
+
+  setRatedCurrent(current: number): void {
+    this.ratedCurrent = Math.max(0, current);
+  }
+
+  getMeltingIntegral(): number {
+    return this.meltingIntegral;
+  }
+
+  setMeltingIntegral(integral: number): void {
+    this.meltingIntegral = Math.max(0, integral);
+  }
+
+  isBlown(): boolean {
+    return this.blown;
+  }
+
+  // How close the element is to melting (0-1)
+  getMeltFraction(): number {
+    return this.meltingIntegral > 0 ? Math.min(this.heat / this.meltingIntegral, 1) : 0;
+  }
+
+  // Fit a fresh fuse of the same rating
+  replace(): void {
+    this.blown = false;
+    this.heat = 0;
+    this.isBurned = false;
+    this.temperature = 25;
+  }
+
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 2 + (this.blown ? 1 : 0);
+  }
+
+  getResistance(): number {
+    return this.blown || this.isBurned ? this.openResistance : this.elementResistance;
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    if (this.blown) return;
+
+    // Below the rating the element sheds heat as fast as it gains it
+    const current = this.getCurrent();
+    const excess = current * current - this.ratedCurrent * this.ratedCurrent;
+    this.heat = Math.max(0, this.heat + excess * system.getTimeStep());
+    if (this.heat >= this.meltingIntegral) {
+      this.blown = true;
+    }
+  }
+
+  update(deltaTime: number): void {
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.getResistance();
+    this.updateTemperature(deltaTime);
+  }
+}
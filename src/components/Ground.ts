@@ -0,0 +1,59 @@
+/**
+ * Ground Component - Explicit 0V reference for the circuit
+ */
+
+import { Component, ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+
+export class Ground extends Component {
+  constructor(position: Vector2) {
+    super(ComponentType.GROUND, position);
+    this.width = 30;
+    this.height = 40;
+    this.color = '#2c3e50';
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x, this.position.y - this.height / 2),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 1) {
+      const halfHeight = this.height / 2;
+
+      // Terminal sits at the top of the symbol
+      this.terminals[0].position = new Vector2(
+        this.position.x + halfHeight * Math.sin(this.rotation),
+        this.position.y - halfHeight * Math.cos(this.rotation)
+      );
+    }
+  }
+
+  getReferenceTerminal(): number | null {
+    return 0;
+  }
+
+  getResistance(): number {
+    return 0;
+  }
+
+  getVoltage(): number {
+    return 0;
+  }
+
+  getCurrent(): number {
+    return 0;
+  }
+
+  update(_deltaTime: number): void {
+    // The reference node carries no state of its own
+  }
+}
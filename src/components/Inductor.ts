@@ -0,0 +1,172 @@
+/**
+ * Inductor Component
+ */
+
+import { Component, ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { InductorCompanion, inductorCompanion, inductorVoltage } from '../physics/DeviceModels';
+
+export class Inductor extends Component {
+  private inductance: number; // Henries
+  private seriesResistance: number = 0.5; // Winding resistance (Ohms)
+  private saturationCurrent: number = 2; // Core saturates above this (A)
+  private current: number = 0; // Coil current at the end of the last step (A)
+  private previousVoltage: number = 0; // History term for trapezoidal integration
+
+  constructor(position: Vector2, inductance: number = 0.1) {
+    super(ComponentType.INDUCTOR, position);
+    this.inductance = inductance;
+    this.width = 70;
+    this.height = 30;
+    this.color = '#b87333';
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getResistance(): number {
+    return this.isBurned ? Infinity : this.seriesResistance;
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  getInductance(): number {
+    return this.inductance;
+  }
+
+  setInductance(inductance: number): void {
+    this.inductance = Math.max(1e-9, inductance);
+  }
+
+  getSaturationCurrent(): number {
+    return this.saturationCurrent;
+  }
+
+  setSaturationCurrent(current: number): void {
+    this.saturationCurrent = Math.max(1e-6, current);
+  }
+
+  // Inductance seen at the present coil current; drops off as the core saturates
+  getEffectiveInductance(): number {
+    const ratio = this.current / this.saturationCurrent;
+    return this.inductance / (1 + ratio * ratio);
+  }
+
+  // Magnetic energy ½LI² (J)
+  getStoredEnergy(): number {
+    return 0.5 * this.getEffectiveInductance() * this.current * this.current;
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    const pos = system.getNode(this.terminals[0]);
+    const neg = system.getNode(this.terminals[1]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+      return;
+    }
+
+    // At DC an inductor is a short through its winding resistance
+    if (system.getAnalysisMode() === AnalysisMode.DC) {
+      system.stampVoltageSource(pos, neg, branch, 0, this.seriesResistance);
+      return;
+    }
+
+    // Companion model: v = Req * (i - i_prev) [- v_prev], in series with the winding
+    const { voltage, resistance } = this.companion(system);
+    system.stampVoltageSource(pos, neg, branch, voltage, resistance + this.seriesResistance);
+  }
+
+  stampAC(system: ACSystem): void {
+    const pos = system.getNode(this.terminals[0]);
+    const neg = system.getNode(this.terminals[1]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+      return;
+    }
+
+    // Z = R + jωL, with L taken at the bias current
+    system.stampVoltageSource(pos, neg, branch, 0, this.seriesResistance, system.getOmega() * this.getEffectiveInductance());
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const current = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    if (this.isBurned) {
+      this.current = 0;
+      this.previousVoltage = 0;
+      return;
+    }
+
+    // Voltage across the ideal inductance, excluding the winding drop
+    const current = this.getCurrent();
+    this.previousVoltage = inductorVoltage(this.companion(system), current);
+    this.current = current;
+  }
+
+  private companion(system: MNASystem): InductorCompanion {
+    return inductorCompanion(this.getEffectiveInductance(), this.current, this.previousVoltage,
+      system.getTimeStep(), system.getIntegrationMethod());
+  }
+
+  update(deltaTime: number): void {
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.seriesResistance;
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -2,14 +2,21 @@
  * LED Component - Light Emitting Diode
  */
 
-import { Component, ComponentType } from '../core/Component';
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
 import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { THERMAL_VOLTAGE, junction, criticalVoltage, limitJunctionVoltage } from '../physics/DeviceModels';
 
 export class LED extends Component {
-  private forwardVoltage: number = 2.0; // Typical red LED
-  private forwardResistance: number = 10; // Ohms when conducting
-  private reverseResistance: number = 1e6; // Very high when reverse biased
+  private forwardVoltage: number = 2.0; // Typical red LED, at nominal current
+  private nominalCurrent: number = 0.02; // 20mA
+  private emissionCoefficient: number = 2; // Ideality factor n
+  private saturationCurrent: number = 0; // Is, derived from forwardVoltage
   private maxCurrent: number = 0.03; // 30mA
+  private junctionVoltage: number = 0; // Last linearization point
+  private companionConductance: number = 0;
+  private companionCurrent: number = 0;
   private brightness: number = 0; // 0 to 1
   private ledColor: string = '#ff0000'; // Red
 
@@ -34,29 +41,29 @@ export class LED extends Component {
     const ledData = colorMap[color.toLowerCase()] || colorMap['red'];
     this.ledColor = ledData.hex;
     this.forwardVoltage = ledData.vf;
+
+    // Fit Shockley's Is so the diode drops Vf at its nominal current
+    const nVt = this.emissionCoefficient * THERMAL_VOLTAGE;
+    this.saturationCurrent = this.nominalCurrent / (Math.exp(this.forwardVoltage / nVt) - 1);
   }
 
   private initializeTerminals(): void {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -78,18 +85,67 @@ export class LED extends Component {
   getResistance(): number {
     if (this.isBurned) return Infinity;
 
-    const voltage = this.getVoltage();
+    // Static resistance V/I at the present operating point
+    const current = this.getCurrent();
+    return current > 1e-12 ? this.getVoltage() / current : Infinity;
+  }
 
-    // Diode characteristic
-    if (voltage >= this.forwardVoltage) {
-      return this.forwardResistance;
-    } else if (voltage > 0) {
-      // Exponential increase in resistance below forward voltage
-      return this.forwardResistance * Math.exp((this.forwardVoltage - voltage) * 5);
-    } else {
-      // Reverse biased
-      return this.reverseResistance;
-    }
+  getCouplings(): TerminalCoupling[] {
+    // Conducts in the forward direction at any operating point
+    return this.isBurned ? [] : [{ from: 0, to: 1, kind: CouplingKind.CONDUCTIVE }];
+  }
+
+  isNonlinear(): boolean {
+    return true;
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    const anode = system.getNode(this.terminals[0]);
+    const cathode = system.getNode(this.terminals[1]);
+    const nVt = this.emissionCoefficient * THERMAL_VOLTAGE;
+
+    // Linearize the Shockley curve around the limited junction voltage
+    const vNew = system.getVoltage(anode) - system.getVoltage(cathode);
+    const vCrit = criticalVoltage(this.saturationCurrent, nVt);
+    this.junctionVoltage = limitJunctionVoltage(vNew, this.junctionVoltage, nVt, vCrit);
+    if (this.junctionVoltage !== vNew) system.markLimited();
+
+    const { current, conductance } = junction(this.junctionVoltage, this.saturationCurrent, nVt);
+    this.companionConductance = conductance;
+    this.companionCurrent = current - conductance * this.junctionVoltage;
+
+    system.stampConductance(anode, cathode, this.companionConductance);
+    system.stampCurrentSource(anode, cathode, this.companionCurrent);
+  }
+
+  stampAC(system: ACSystem): void {
+    if (this.isBurned) return;
+
+    // Dynamic conductance dI/dV from the last linearization
+    system.stampAdmittance(
+      system.getNode(this.terminals[0]),
+      system.getNode(this.terminals[1]),
+      this.companionConductance
+    );
+  }
+
+  getSolverState(): number[] {
+    return [this.junctionVoltage, this.companionConductance, this.companionCurrent];
+  }
+
+  setSolverState(state: number[]): void {
+    [this.junctionVoltage, this.companionConductance, this.companionCurrent] = state;
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    const current = this.isBurned
+      ? 0
+      : this.companionConductance * this.getVoltage() + this.companionCurrent;
+
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
   }
 
   getVoltage(): number {
@@ -101,13 +157,7 @@ export class LED extends Component {
 
   getCurrent(): number {
     if (this.terminals.length === 2 && !this.isBurned) {
-      const voltage = this.getVoltage();
-
-      if (voltage >= this.forwardVoltage) {
-        // Conducting - use Shockley diode equation (simplified)
-        const current = (voltage - this.forwardVoltage) / this.forwardResistance;
-        return Math.min(current, this.maxCurrent * 1.5); // Allow slight overcurrent
-      }
+      return this.terminals[0].current;
     }
     return 0;
   }
@@ -141,11 +191,5 @@ export class LED extends Component {
     }
 
     this.updateTemperature(deltaTime);
-
-    // Update terminal currents
-    if (this.terminals.length === 2) {
-      this.terminals[0].current = current;
-      this.terminals[1].current = -current;
-    }
   }
 }
@@ -0,0 +1,347 @@
+/**
+ * MOSFET - N/P-channel enhancement transistor with body diode
+ *
+ * Terminals: 0 = gate, 1 = drain, 2 = source. The channel follows the
+ * square-law (Shichman-Hodges) model; the body is tied to the source.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { THERMAL_VOLTAGE, junction, criticalVoltage, limitJunctionVoltage, capacitorCompanion } from '../physics/DeviceModels';
+
+export enum MOSFETChannel {
+  N = 'n',
+  P = 'p'
+}
+
+export const GATE = 0;
+export const DRAIN = 1;
+export const SOURCE = 2;
+
+interface ChannelLinearization {
+  current: number;       // Effective drain to effective source (A)
+  transconductance: number; // dI/dVgs (S)
+  outputConductance: number; // dI/dVds (S)
+}
+
+export class MOSFET extends Component {
+  private channel: MOSFETChannel;
+  private thresholdVoltage: number; // |Vth| (V)
+  private transconductance: number; // Square-law coefficient k (A/V²)
+  private ratedGateVoltage: number = 4.5; // |Vgs| the on-resistance is specified at (V)
+  private channelModulation: number = 0.01; // λ (1/V)
+  private gateCapacitance: number = 2e-9; // Cgs (F)
+  private bodySaturationCurrent: number = 1e-12; // Body diode Is (A)
+  private powerRating: number = 2; // Watts, free air
+
+  private gateVoltage: number = 0; // Vgs at the end of the last timestep, for Cgs history
+  private gateCurrent: number = 0; // Cgs current at the end of the last timestep, for trapezoidal history
+  private bodyVoltage: number = 0; // Limited body diode voltage (anode - cathode)
+  private bodyConductance: number = 0;
+  private bodyCurrent: number = 0; // Companion current of the body diode
+  private gateConductance: number = 0; // Companion of Cgs for the present step
+  private gateHistory: number = 0; // Companion current of Cgs, gate to source
+
+  constructor(position: Vector2, channel: MOSFETChannel = MOSFETChannel.N, thresholdVoltage: number = 2, onResistance: number = 0.05) {
+    super(ComponentType.MOSFET, position);
+    this.channel = channel;
+    this.thresholdVoltage = thresholdVoltage;
+    this.transconductance = 1 / (onResistance * (this.ratedGateVoltage - thresholdVoltage));
+    this.width = 60;
+    this.height = 60;
+    this.maxTemperature = 175;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: this.toWorld(new Vector2(-this.width / 2, 0)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(this.width / 4, -this.height / 2)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(this.width / 4, this.height / 2)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 3) {
+      this.terminals[GATE].position = this.toWorld(new Vector2(-this.width / 2, 0));
+      this.terminals[DRAIN].position = this.toWorld(new Vector2(this.width / 4, -this.height / 2));
+      this.terminals[SOURCE].position = this.toWorld(new Vector2(this.width / 4, this.height / 2));
+    }
+  }
+
+  getResistance(): number {
+    if (this.isBurned) return Infinity;
+
+    // Drain-source static resistance
+    const current = this.getCurrent();
+    return Math.abs(current) > 1e-12 ? this.getVoltage() / current : Infinity;
+  }
+
+  // Drain-source voltage
+  getVoltage(): number {
+    if (this.terminals.length === 3) {
+      return this.terminals[DRAIN].voltage - this.terminals[SOURCE].voltage;
+    }
+    return 0;
+  }
+
+  // Drain current, positive into the drain
+  getCurrent(): number {
+    return this.isBurned ? 0 : this.terminals[DRAIN].current;
+  }
+
+  getGateVoltage(): number {
+    return this.terminals[GATE].voltage - this.terminals[SOURCE].voltage;
+  }
+
+  getChannel(): MOSFETChannel {
+    return this.channel;
+  }
+
+  getThresholdVoltage(): number {
+    return this.thresholdVoltage;
+  }
+
+  setThresholdVoltage(voltage: number): void {
+    this.thresholdVoltage = Math.max(0.1, voltage);
+  }
+
+  getTransconductance(): number {
+    return this.transconductance;
+  }
+
+  setTransconductance(k: number): void {
+    this.transconductance = Math.max(1e-6, k);
+  }
+
+  // Channel resistance when fully enhanced at the rated gate voltage
+  getOnResistance(): number {
+    return 1 / (this.transconductance * Math.max(this.ratedGateVoltage - this.thresholdVoltage, 0.1));
+  }
+
+  setOnResistance(resistance: number): void {
+    const overdrive = Math.max(this.ratedGateVoltage - this.thresholdVoltage, 0.1);
+    this.transconductance = 1 / (Math.max(resistance, 1e-4) * overdrive);
+  }
+
+  getGateCapacitance(): number {
+    return this.gateCapacitance;
+  }
+
+  setGateCapacitance(capacitance: number): void {
+    this.gateCapacitance = Math.max(0, capacitance);
+  }
+
+  getPowerRating(): number {
+    return this.powerRating;
+  }
+
+  setPowerRating(watts: number): void {
+    this.powerRating = Math.max(0.01, watts);
+  }
+
+  // True while the gate drive exceeds the threshold
+  isOn(): boolean {
+    const sign = this.channel === MOSFETChannel.N ? 1 : -1;
+    return !this.isBurned && sign * this.getGateVoltage() > this.thresholdVoltage;
+  }
+
+  // True while the body diode carries the drain current (e.g. motor flyback)
+  isBodyDiodeConducting(): boolean {
+    return !this.isBurned && this.bodyVoltage > 0.5;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    if (this.isBurned) return [];
+
+    // The gate is insulated: only its capacitance reaches the source
+    return [
+      { from: GATE, to: SOURCE, kind: CouplingKind.CAPACITIVE },
+      { from: DRAIN, to: SOURCE, kind: CouplingKind.CONDUCTIVE }
+    ];
+  }
+
+  isNonlinear(): boolean {
+    return true;
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const voltages = nodes.map(node => system.getVoltage(node));
+    const sign = this.channel === MOSFETChannel.N ? 1 : -1;
+
+    // Channel, linearized around the present node voltages
+    const { nodes: channelNodes, currents, jacobian } = this.linearizeChannel(nodes, voltages);
+    system.stampLinearizedCurrents(channelNodes, currents, jacobian, channelNodes.map(n => system.getVoltage(n)));
+
+    // Body diode: source to drain for N-channel, drain to source for P-channel
+    const anode = sign > 0 ? nodes[SOURCE] : nodes[DRAIN];
+    const cathode = sign > 0 ? nodes[DRAIN] : nodes[SOURCE];
+    const vNew = system.getVoltage(anode) - system.getVoltage(cathode);
+    const vCrit = criticalVoltage(this.bodySaturationCurrent, THERMAL_VOLTAGE);
+    this.bodyVoltage = limitJunctionVoltage(vNew, this.bodyVoltage, THERMAL_VOLTAGE, vCrit);
+    if (this.bodyVoltage !== vNew) system.markLimited();
+
+    const body = junction(this.bodyVoltage, this.bodySaturationCurrent, THERMAL_VOLTAGE);
+    this.bodyConductance = body.conductance;
+    this.bodyCurrent = body.current - body.conductance * this.bodyVoltage;
+    system.stampConductance(anode, cathode, this.bodyConductance);
+    system.stampCurrentSource(anode, cathode, this.bodyCurrent);
+
+    // Gate capacitance as a capacitor companion for the step's integration
+    // method, in Norton form; open at DC
+    if (system.getAnalysisMode() === AnalysisMode.DC || this.gateCapacitance === 0) {
+      this.gateConductance = 0;
+      this.gateHistory = 0;
+    } else {
+      const gate = capacitorCompanion(this.gateCapacitance, this.gateVoltage, this.gateCurrent,
+        system.getTimeStep(), system.getIntegrationMethod());
+      this.gateConductance = 1 / gate.resistance;
+      this.gateHistory = -gate.voltage / gate.resistance;
+    }
+    system.stampConductance(nodes[GATE], nodes[SOURCE], this.gateConductance);
+    system.stampCurrentSource(nodes[GATE], nodes[SOURCE], this.gateHistory);
+  }
+
+  getSolverState(): number[] {
+    return [this.bodyVoltage, this.bodyConductance, this.bodyCurrent, this.gateConductance, this.gateHistory];
+  }
+
+  setSolverState(state: number[]): void {
+    [this.bodyVoltage, this.bodyConductance, this.bodyCurrent, this.gateConductance, this.gateHistory] = state;
+  }
+
+  stampAC(system: ACSystem): void {
+    if (this.isBurned) return;
+
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const voltages = this.terminals.map(t => t.voltage);
+    const { nodes: channelNodes, jacobian } = this.linearizeChannel(nodes, voltages);
+    for (let k = 0; k < 3; k++) {
+      for (let j = 0; j < 3; j++) {
+        system.stampMatrix(channelNodes[k], channelNodes[j], jacobian[k][j]);
+      }
+    }
+
+    const sign = this.channel === MOSFETChannel.N ? 1 : -1;
+    system.stampAdmittance(
+      sign > 0 ? nodes[SOURCE] : nodes[DRAIN],
+      sign > 0 ? nodes[DRAIN] : nodes[SOURCE],
+      this.bodyConductance
+    );
+    system.stampAdmittance(nodes[GATE], nodes[SOURCE], 0, system.getOmega() * this.gateCapacitance);
+  }
+
+  /**
+   * Channel current and Jacobian as [gate, effective drain, effective source].
+   * The device is symmetric: with Vds reversed, drain and source swap roles.
+   */
+  private linearizeChannel(nodes: number[], voltages: number[]): { nodes: number[]; currents: number[]; jacobian: number[][] } {
+    const sign = this.channel === MOSFETChannel.N ? 1 : -1;
+    const reversed = sign * (voltages[DRAIN] - voltages[SOURCE]) < 0;
+    const drain = reversed ? SOURCE : DRAIN;
+    const source = reversed ? DRAIN : SOURCE;
+
+    const vgs = sign * (voltages[GATE] - voltages[source]);
+    const vds = sign * (voltages[drain] - voltages[source]);
+    const { current, transconductance: gm, outputConductance: gds } = this.squareLaw(vgs, vds);
+
+    return {
+      nodes: [nodes[GATE], nodes[drain], nodes[source]],
+      currents: [0, sign * current, -sign * current],
+      jacobian: [
+        [0, 0, 0],
+        [gm, gds, -(gm + gds)],
+        [-gm, -gds, gm + gds]
+      ]
+    };
+  }
+
+  private squareLaw(vgs: number, vds: number): ChannelLinearization {
+    const k = this.transconductance;
+    const lambda = this.channelModulation;
+    const overdrive = vgs - this.thresholdVoltage;
+
+    if (overdrive <= 0) {
+      return { current: 0, transconductance: 0, outputConductance: 0 };
+    }
+
+    if (vds < overdrive) {
+      // Linear (triode) region: a gate-controlled resistor
+      const base = overdrive * vds - (vds * vds) / 2;
+      return {
+        current: k * base * (1 + lambda * vds),
+        transconductance: k * vds * (1 + lambda * vds),
+        outputConductance: k * (overdrive - vds) * (1 + lambda * vds) + k * base * lambda
+      };
+    }
+
+    // Saturation: current set by the gate, nearly independent of Vds
+    return {
+      current: (k / 2) * overdrive * overdrive * (1 + lambda * vds),
+      transconductance: k * overdrive * (1 + lambda * vds),
+      outputConductance: (k / 2) * overdrive * overdrive * lambda
+    };
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    if (this.isBurned) {
+      this.terminals.forEach(t => (t.current = 0));
+      return;
+    }
+
+    const sign = this.channel === MOSFETChannel.N ? 1 : -1;
+    const voltages = this.terminals.map(t => t.voltage);
+    const reversed = sign * (voltages[DRAIN] - voltages[SOURCE]) < 0;
+    const drain = reversed ? SOURCE : DRAIN;
+    const source = reversed ? DRAIN : SOURCE;
+    const channel = sign * this.squareLaw(
+      sign * (voltages[GATE] - voltages[source]),
+      sign * (voltages[drain] - voltages[source])
+    ).current;
+
+    const anodeVoltage = sign > 0 ? voltages[SOURCE] - voltages[DRAIN] : voltages[DRAIN] - voltages[SOURCE];
+    const body = this.bodyConductance * anodeVoltage + this.bodyCurrent;
+    const gate = this.gateConductance * (voltages[GATE] - voltages[SOURCE]) + this.gateHistory;
+
+    // Body diode current flows source → drain inside an N-channel part
+    const drainCurrent = (reversed ? -channel : channel) - sign * body;
+    this.terminals[GATE].current = gate;
+    this.terminals[DRAIN].current = drainCurrent;
+    this.terminals[SOURCE].current = -drainCurrent - gate;
+  }
+
+  acceptTimeStep(_system: MNASystem): void {
+    this.gateVoltage = this.isBurned ? 0 : this.getGateVoltage();
+    this.gateCurrent = this.isBurned ? 0 : this.terminals[GATE].current;
+  }
+
+  update(deltaTime: number): void {
+    this.powerDissipation = Math.abs(this.getVoltage() * this.getCurrent());
+
+    if (this.powerDissipation > this.powerRating * 2) {
+      this.isBurned = true;
+    }
+
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -1,16 +1,46 @@
 /**
  * DC Motor Component
+ *
+ * A winding resistance in series with a back-EMF proportional to speed. The
+ * electrical torque (torque constant × current) turns a shaft against
+ * viscous friction and an adjustable load torque; a load the motor cannot
+ * overcome stalls it, and the stalled coil heats up. The back-EMF is a
+ * source to the solver, so a motor whose shaft is turned by hand or by a
+ * coupled motor works as a generator. It hums at its commutator frequency,
+ * louder the more current it draws.
  */
 
-import { Component, ComponentType } from '../core/Component';
+import { Component, ComponentType, SoundSource } from '../core/Component';
 import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
 
-export class Motor extends Component {
+const RPM_PER_RAD_S = 60 / (2 * Math.PI);
+const HAND_RESPONSE = 30; // rad/s; a grabbed rotor follows the hand within a few tens of ms
+const COMMUTATOR_SEGMENTS = 6; // Brush clicks per revolution, the pitch of the hum
+const HUM_FULL_SCALE_CURRENT = 1; // Amps for the loudest hum
+
+// Rotating parts shared by motors coupled together
+class Shaft {
+  speed: number = 0; // rad/s
+  angle: number = 0; // Radians, unwrapped
+  motors: Motor[] = [];
+
+  getInertia(): number {
+    return this.motors.reduce((sum, motor) => sum + motor.getInertia(), 0);
+  }
+}
+
+export class Motor extends Component implements SoundSource {
   private resistance: number = 5; // Coil resistance
   private backEmfConstant: number = 0.01; // V/RPM
-  private rpm: number = 0;
+  private inertia: number = 5e-4; // Rotor moment of inertia (kg⋅m²)
+  private viscousFriction: number = 1e-4; // Bearing drag (N⋅m per rad/s)
+  private loadTorque: number = 0; // Mechanical load on the shaft (N⋅m)
   private maxRPM: number = 5000;
-  private rotorAngle: number = 0;
+
+  private shaft: Shaft = new Shaft();
+  private handAngle: number | null = null; // Where a hand holding the rotor wants it (rad)
+  private humPhase: number = 0; // Radians
 
   constructor(position: Vector2) {
     super(ComponentType.MOTOR, position);
@@ -18,6 +48,8 @@ export class Motor extends Component {
     this.height = 70;
     this.color = '#34495e';
     this.maxTemperature = 180;
+    this.thermalCapacity = 2; // Small can-motor winding
+    this.shaft.motors.push(this);
     this.initializeTerminals();
   }
 
@@ -25,23 +57,19 @@ export class Motor extends Component {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -64,6 +92,52 @@ export class Motor extends Component {
     return this.isBurned ? Infinity : this.resistance;
   }
 
+  setResistance(resistance: number): void {
+    this.resistance = Math.max(0.01, resistance);
+  }
+
+  getBackEmfConstant(): number {
+    return this.backEmfConstant;
+  }
+
+  setBackEmfConstant(voltsPerRpm: number): void {
+    this.backEmfConstant = Math.max(0, voltsPerRpm);
+  }
+
+  // The back-EMF constant in SI units, so electrical and mechanical power balance
+  getTorqueConstant(): number {
+    return this.backEmfConstant * RPM_PER_RAD_S;
+  }
+
+  getInertia(): number {
+    return this.inertia;
+  }
+
+  setInertia(inertia: number): void {
+    this.inertia = Math.max(1e-7, inertia);
+  }
+
+  getViscousFriction(): number {
+    return this.viscousFriction;
+  }
+
+  setViscousFriction(friction: number): void {
+    this.viscousFriction = Math.max(0, friction);
+  }
+
+  getLoadTorque(): number {
+    return this.loadTorque;
+  }
+
+  setLoadTorque(torque: number): void {
+    this.loadTorque = Math.max(0, torque);
+  }
+
+  // Torque at standstill with the present terminal voltage (N⋅m)
+  getStallTorque(): number {
+    return this.isBurned ? 0 : this.getTorqueConstant() * Math.abs(this.getVoltage()) / this.resistance;
+  }
+
   getVoltage(): number {
     if (this.terminals.length === 2) {
       return this.terminals[0].voltage - this.terminals[1].voltage;
@@ -71,57 +145,157 @@ export class Motor extends Component {
     return 0;
   }
 
+  getBackEmf(): number {
+    return this.backEmfConstant * this.getRPM();
+  }
+
+  // The current from the last solve, not recomputed from a speed that
+  // acceptTimeStep has since moved on
   getCurrent(): number {
-    if (this.terminals.length === 2 && !this.isBurned) {
-      const appliedVoltage = this.getVoltage();
-      const backEmf = this.backEmfConstant * this.rpm;
-      return (appliedVoltage - backEmf) / this.resistance;
-    }
-    return 0;
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  // Driven but held still by the load
+  isStalled(): boolean {
+    return this.shaft.speed === 0 && Math.abs(this.getCurrent()) > 1e-3;
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    // Coil resistance with the back-EMF as a Norton current source
+    const n0 = system.getNode(this.terminals[0]);
+    const n1 = system.getNode(this.terminals[1]);
+
+    system.stampConductance(n0, n1, 1 / this.resistance);
+    system.stampCurrentSource(n1, n0, this.getBackEmf() / this.resistance);
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    // The shaft has not moved since stamp(), so this is the back-EMF it used
+    const current = this.isBurned ? 0 : (this.getVoltage() - this.getBackEmf()) / this.resistance;
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
   }
 
   getRPM(): number {
-    return this.rpm;
+    return this.shaft.speed * RPM_PER_RAD_S;
   }
 
   getRotorAngle(): number {
-    return this.rotorAngle;
+    return this.shaft.angle;
   }
 
-  update(deltaTime: number): void {
-    if (this.isBurned) {
-      this.rpm *= 0.95; // Coast to stop
-      this.rotorAngle += (this.rpm / 60) * deltaTime * Math.PI * 2;
-      return;
+  // Tip of the rotor on the canvas, for turning it by hand
+  getRotorHandle(): Vector2 {
+    const radius = this.width / 4;
+    const angle = this.shaft.angle;
+    return this.toWorld(new Vector2(radius * Math.sin(angle), -radius * Math.cos(angle)));
+  }
+
+  // Take hold of the rotor; it then follows turnRotorBy until released
+  grabRotor(): void {
+    this.handAngle = this.shaft.angle;
+  }
+
+  turnRotorBy(angle: number): void {
+    if (this.handAngle !== null) this.handAngle += angle;
+  }
+
+  releaseRotor(): void {
+    this.handAngle = null;
+  }
+
+  isRotorHeld(): boolean {
+    return this.handAngle !== null;
+  }
+
+  // Join this motor's shaft to another's; they then turn as one, keeping
+  // their combined angular momentum
+  coupleTo(other: Motor): void {
+    if (other.shaft === this.shaft) return;
+
+    const a = this.shaft;
+    const b = other.shaft;
+    const shaft = new Shaft();
+    shaft.motors = [...a.motors, ...b.motors];
+    shaft.speed = (a.speed * a.getInertia() + b.speed * b.getInertia()) / shaft.getInertia();
+    shaft.angle = a.angle;
+    shaft.motors.forEach(motor => (motor.shaft = shaft));
+  }
+
+  // Give this motor its own shaft again, turning at the same speed
+  uncouple(): void {
+    if (this.shaft.motors.length === 1) return;
+
+    this.shaft.motors = this.shaft.motors.filter(motor => motor !== this);
+    const shaft = new Shaft();
+    shaft.speed = this.shaft.speed;
+    shaft.angle = this.shaft.angle;
+    shaft.motors = [this];
+    this.shaft = shaft;
+  }
+
+  isCoupledTo(other: Motor): boolean {
+    return other !== this && other.shaft === this.shaft;
+  }
+
+  getCoupledMotors(): Motor[] {
+    return this.shaft.motors.filter(motor => motor !== this);
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    // Each motor on a shaft adds the torques acting on its own rotor; the
+    // shaft's speed is shared, so coupled motors drive and brake each other
+    const dt = system.getTimeStep();
+    const shaft = this.shaft;
+    const inertia = shaft.getInertia();
+    const speed = shaft.speed;
+
+    let torque = this.getTorqueConstant() * this.getCurrent() - this.viscousFriction * speed;
+    if (this.handAngle !== null) {
+      // The hand pulls the rotor along like a stiff spring
+      const stiffness = inertia * HAND_RESPONSE * HAND_RESPONSE;
+      const damping = 2 * inertia * HAND_RESPONSE;
+      torque += stiffness * (this.handAngle - shaft.angle) - damping * speed;
     }
 
-    const current = this.getCurrent();
+    // The load opposes motion, but can only hold the shaft still, not reverse it
+    let next = speed + (torque / inertia) * dt;
+    const loadStep = (this.loadTorque / inertia) * dt;
+    if (Math.abs(next) <= loadStep) {
+      next = 0;
+    } else {
+      next -= Math.sign(next) * loadStep;
+    }
 
-    // Motor physics: Torque proportional to current
-    // Angular acceleration = Torque / Inertia
-    const torqueConstant = 0.01; // N⋅m/A
-    const inertia = 0.0001; // kg⋅m²
-    const friction = 0.1; // Damping
+    const maxSpeed = this.maxRPM / RPM_PER_RAD_S;
+    shaft.speed = Math.max(-maxSpeed, Math.min(next, maxSpeed));
 
-    const torque = torqueConstant * current;
-    const angularAcceleration = torque / inertia;
+    // The shaft turns once per timestep, after its last motor has pushed on it
+    if (shaft.motors[shaft.motors.length - 1] === this) {
+      shaft.angle += shaft.speed * dt;
+    }
+  }
 
-    // Update RPM
-    const rpmAcceleration = angularAcceleration * (60 / (2 * Math.PI));
-    this.rpm += (rpmAcceleration - friction * this.rpm) * deltaTime;
-    this.rpm = Math.max(0, Math.min(this.rpm, this.maxRPM));
+  // Commutator hum: a buzzy tone at the segment rate, pitch following the speed
+  getHumFrequency(): number {
+    return (Math.abs(this.getRPM()) / 60) * COMMUTATOR_SEGMENTS;
+  }
 
-    // Update rotor angle
-    this.rotorAngle += (this.rpm / 60) * deltaTime * Math.PI * 2;
+  renderSound(out: Float32Array, sampleRate: number): void {
+    const amplitude = 0.2 * Math.min(Math.abs(this.getCurrent()) / HUM_FULL_SCALE_CURRENT, 1);
+    const phaseStep = (2 * Math.PI * this.getHumFrequency()) / sampleRate;
+    for (let i = 0; i < out.length; i++) {
+      this.humPhase = (this.humPhase + phaseStep) % (2 * Math.PI);
+      out[i] = amplitude * (Math.sin(this.humPhase) + 0.5 * Math.sin(2 * this.humPhase));
+    }
+  }
 
-    // Power dissipation
+  update(deltaTime: number): void {
+    // Shaft motion is integrated per timestep in acceptTimeStep
+    const current = this.getCurrent();
     this.powerDissipation = current * current * this.resistance;
     this.updateTemperature(deltaTime);
-
-    // Update terminal currents
-    if (this.terminals.length === 2) {
-      this.terminals[0].current = current;
-      this.terminals[1].current = -current;
-    }
   }
 }
@@ -0,0 +1,279 @@
+/**
+ * Op-Amp - Finite-gain amplifier built on a voltage-controlled voltage source
+ *
+ * Terminals: 0 = non-inverting input, 1 = inverting input, 2 = output,
+ * 3 = positive supply, 4 = negative supply. The output follows the open-loop
+ * gain until it clamps at the supply rails, and can optionally be slew-rate
+ * limited in transient analysis.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export const NON_INVERTING = 0;
+export const INVERTING = 1;
+export const OUTPUT = 2;
+export const SUPPLY_POSITIVE = 3;
+export const SUPPLY_NEGATIVE = 4;
+
+export class OpAmp extends Component {
+  private openLoopGain: number; // A (V/V)
+  private railHeadroom: number = 0.1; // How close the output gets to each rail (V)
+  private slewRate: number = 0; // V/s; 0 disables the limit
+  private inputResistance: number = 10e6; // Between the inputs (Ω)
+  private quiescentResistance: number = 10e3; // Supply draw when idle (Ω)
+
+  // Output state, relative to the negative supply
+  private outputVoltage: number = 0; // Vout - V- at the end of the last timestep
+  private clamp: number = 0; // +1 / -1 while held at the upper / lower bound, else 0
+  private clampedAtRail: boolean = false; // The bound is a rail rather than the slew limit
+  private drive: number = 0; // Direction the inputs pushed the output at the last linear stamp
+  private sourcing: boolean = false; // Output current drawn from the positive supply
+
+  constructor(position: Vector2, openLoopGain: number = 1e5) {
+    super(ComponentType.OP_AMP, position);
+    this.openLoopGain = openLoopGain;
+    this.width = 70;
+    this.height = 60;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = this.getTerminalOffsets().map(offset => ({
+      position: this.toWorld(offset),
+      id: this.generateTerminalId(),
+      voltage: 0,
+      current: 0
+    }));
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 5) {
+      this.getTerminalOffsets().forEach((offset, k) => {
+        this.terminals[k].position = this.toWorld(offset);
+      });
+    }
+  }
+
+  // Inputs on the left (inverting on top), output on the right, supplies top and bottom
+  private getTerminalOffsets(): Vector2[] {
+    return [
+      new Vector2(-this.width / 2, this.height / 4),
+      new Vector2(-this.width / 2, -this.height / 4),
+      new Vector2(this.width / 2, 0),
+      new Vector2(0, -this.height / 2),
+      new Vector2(0, this.height / 2)
+    ];
+  }
+
+  getResistance(): number {
+    return this.inputResistance;
+  }
+
+  // Output voltage against the negative supply
+  getVoltage(): number {
+    if (this.terminals.length === 5) {
+      return this.terminals[OUTPUT].voltage - this.terminals[SUPPLY_NEGATIVE].voltage;
+    }
+    return 0;
+  }
+
+  // Output current, positive into the output pin
+  getCurrent(): number {
+    return this.terminals.length === 5 ? this.terminals[OUTPUT].current : 0;
+  }
+
+  getDifferentialInput(): number {
+    return this.terminals[NON_INVERTING].voltage - this.terminals[INVERTING].voltage;
+  }
+
+  getOpenLoopGain(): number {
+    return this.openLoopGain;
+  }
+
+  setOpenLoopGain(gain: number): void {
+    this.openLoopGain = Math.max(1, gain);
+  }
+
+  getRailHeadroom(): number {
+    return this.railHeadroom;
+  }
+
+  setRailHeadroom(volts: number): void {
+    this.railHeadroom = Math.max(0, volts);
+  }
+
+  getSlewRate(): number {
+    return this.slewRate;
+  }
+
+  // V/s, e.g. 0.5e6 for a 741; 0 disables the limit
+  setSlewRate(voltsPerSecond: number): void {
+    this.slewRate = Math.max(0, voltsPerSecond);
+  }
+
+  getInputResistance(): number {
+    return this.inputResistance;
+  }
+
+  setInputResistance(resistance: number): void {
+    this.inputResistance = Math.max(1, resistance);
+  }
+
+  // True while the output is pinned near a supply rail
+  isSaturated(): boolean {
+    return this.clamp !== 0 && this.clampedAtRail;
+  }
+
+  // True while the output is ramping at the slew rate
+  isSlewing(): boolean {
+    return this.clamp !== 0 && !this.clampedAtRail;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    return [
+      { from: NON_INVERTING, to: INVERTING, kind: CouplingKind.CONDUCTIVE },
+      { from: OUTPUT, to: SUPPLY_NEGATIVE, kind: CouplingKind.VOLTAGE_SOURCE },
+      { from: SUPPLY_POSITIVE, to: SUPPLY_NEGATIVE, kind: CouplingKind.CONDUCTIVE }
+    ];
+  }
+
+  isNonlinear(): boolean {
+    return true;
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const voltages = nodes.map(node => system.getVoltage(node));
+    const branch = system.getBranch(this);
+
+    // Output bounds: the rails, taken from the present iterate (the supplies
+    // normally hold them fixed), narrowed by the slew rate in transient steps
+    const span = voltages[SUPPLY_POSITIVE] - voltages[SUPPLY_NEGATIVE];
+    const railLow = Math.min(this.railHeadroom, span / 2);
+    const railHigh = Math.max(span - this.railHeadroom, span / 2);
+    let low = railLow;
+    let high = railHigh;
+    if (system.getAnalysisMode() === AnalysisMode.TRANSIENT && this.slewRate > 0) {
+      const maxStep = this.slewRate * system.getTimeStep();
+      low = Math.max(low, this.outputVoltage - maxStep);
+      high = Math.min(high, this.outputVoltage + maxStep);
+    }
+
+    // Piecewise-linear output: clamp once the linear solution leaves the bounds,
+    // release once the amplifier no longer drives past the bound it is held at.
+    // The clamp goes the way the inputs were pushing: with this much gain, a
+    // linear solution far outside the rails can land on the wrong side.
+    // Release is only judged once the output has reached the bound, so a clamp
+    // set from outside the loop (see acceptTimeStep) gets one solve to act
+    const output = voltages[OUTPUT] - voltages[SUPPLY_NEGATIVE];
+    const unclamped = span / 2 + this.openLoopGain * (voltages[NON_INVERTING] - voltages[INVERTING]);
+    if (this.clamp === 0) {
+      if (output > high || output < low) this.clamp = this.drive || Math.sign(output - span / 2);
+    } else if (Math.abs(output - (this.clamp > 0 ? high : low)) < 1e-3 &&
+      ((this.clamp > 0 && unclamped < high) || (this.clamp < 0 && unclamped > low))) {
+      this.clamp = 0;
+    }
+    this.clampedAtRail = this.clamp > 0 ? high === railHigh : low === railLow;
+
+    if (this.clamp !== 0) {
+      const bound = this.clamp > 0 ? high : low;
+      system.stampVCVS(nodes[OUTPUT], nodes[SUPPLY_NEGATIVE], branch, nodes[NON_INVERTING], nodes[INVERTING], 0, bound);
+    } else {
+      this.drive = Math.sign(unclamped - output);
+      system.stampVCVS(
+        nodes[OUTPUT], nodes[SUPPLY_NEGATIVE], branch,
+        nodes[NON_INVERTING], nodes[INVERTING],
+        this.openLoopGain, span / 2
+      );
+    }
+
+    this.stampSupplyAndInputs(system, nodes, branch);
+  }
+
+  getSolverState(): number[] {
+    return [this.clamp, this.clampedAtRail ? 1 : 0, this.drive];
+  }
+
+  setSolverState(state: number[]): void {
+    this.clamp = state[0];
+    this.clampedAtRail = state[1] === 1;
+    this.drive = state[2];
+  }
+
+  stampAC(system: ACSystem): void {
+    const nodes = this.terminals.map(t => system.getNode(t));
+    const branch = system.getBranch(this);
+
+    // A clamped output no longer responds to the inputs
+    const gain = this.clamp === 0 ? this.openLoopGain : 0;
+    system.stampVCVS(nodes[OUTPUT], nodes[SUPPLY_NEGATIVE], branch, nodes[NON_INVERTING], nodes[INVERTING], gain);
+    system.stampAdmittance(nodes[NON_INVERTING], nodes[INVERTING], 1 / this.inputResistance);
+    system.stampAdmittance(nodes[SUPPLY_POSITIVE], nodes[SUPPLY_NEGATIVE], 1 / this.quiescentResistance);
+    if (this.sourcing) {
+      system.stampCCCS(nodes[SUPPLY_NEGATIVE], nodes[SUPPLY_POSITIVE], branch, 1);
+    }
+  }
+
+  private stampSupplyAndInputs(system: MNASystem, nodes: number[], branch: number): void {
+    system.stampConductance(nodes[NON_INVERTING], nodes[INVERTING], 1 / this.inputResistance);
+    system.stampConductance(nodes[SUPPLY_POSITIVE], nodes[SUPPLY_NEGATIVE], 1 / this.quiescentResistance);
+
+    // The output branch returns through the negative supply; while sourcing,
+    // move that current over to the positive supply where it really comes from
+    if (this.sourcing) {
+      system.stampCCCS(nodes[SUPPLY_NEGATIVE], nodes[SUPPLY_POSITIVE], branch, 1);
+    }
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const output = system.getBranchCurrent(system.getBranch(this));
+    const input = this.getDifferentialInput() / this.inputResistance;
+    const quiescent = (this.terminals[SUPPLY_POSITIVE].voltage - this.terminals[SUPPLY_NEGATIVE].voltage) / this.quiescentResistance;
+    const routed = this.sourcing ? output : 0;
+
+    this.terminals[NON_INVERTING].current = input;
+    this.terminals[INVERTING].current = -input;
+    this.terminals[OUTPUT].current = output;
+    this.terminals[SUPPLY_POSITIVE].current = quiescent - routed;
+    this.terminals[SUPPLY_NEGATIVE].current = -quiescent - output + routed;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    const branch = system.getBranch(this);
+    this.outputVoltage = this.getVoltage();
+    this.sourcing = system.getBranchCurrent(branch) < 0;
+
+    // With positive feedback the linear solution is an unstable balance point
+    // (the output moves against its own drive); real noise tips it toward a
+    // rail, so do that here instead of sitting there indefinitely
+    if (this.clamp === 0) {
+      const response = system.getSensitivity(branch);
+      const node = (k: number) => {
+        const row = system.getNode(this.terminals[k]);
+        return row < 0 ? 0 : response[row];
+      };
+      if (node(OUTPUT) - node(SUPPLY_NEGATIVE) < 0) {
+        const midRail = (this.terminals[SUPPLY_POSITIVE].voltage - this.terminals[SUPPLY_NEGATIVE].voltage) / 2;
+        this.clamp = this.outputVoltage < midRail ? -1 : 1;
+      }
+    }
+  }
+
+  update(deltaTime: number): void {
+    // Output stage loss: the output current times the drop from its supply rail
+    const output = this.getCurrent();
+    const rail = this.sourcing ? this.terminals[SUPPLY_POSITIVE].voltage : this.terminals[SUPPLY_NEGATIVE].voltage;
+    const quiescent = this.terminals[SUPPLY_POSITIVE].voltage - this.terminals[SUPPLY_NEGATIVE].voltage;
+    this.powerDissipation = Math.abs(output * (rail - this.terminals[OUTPUT].voltage)) +
+      quiescent * quiescent / this.quiescentResistance;
+
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * Potentiometer Component - Three-terminal variable resistor
+ *
+ * Terminals: 0 = end A, 1 = end B, 2 = wiper. Leaving one end unconnected
+ * turns it into a rheostat between the other end and the wiper.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+
+export enum PotentiometerTaper {
+  LINEAR = 'linear',
+  LOGARITHMIC = 'logarithmic' // Audio taper: about 10% of the track at half travel
+}
+
+export const END_A = 0;
+export const END_B = 1;
+export const WIPER = 2;
+
+export class Potentiometer extends Component {
+  private resistance: number; // End-to-end track resistance (Ω)
+  private wiper: number = 0.5; // Mechanical travel from end A (0) to end B (1)
+  private taper: PotentiometerTaper;
+  private wiperResistance: number = 0.05; // Contact resistance, keeps both halves finite (Ω)
+  private ratedPower: number = 2; // Watts, wirewound panel pot
+
+  constructor(position: Vector2, resistance: number = 10000, taper: PotentiometerTaper = PotentiometerTaper.LINEAR) {
+    super(ComponentType.POTENTIOMETER, position);
+    this.resistance = resistance;
+    this.taper = taper;
+    this.width = 80;
+    this.height = 40;
+    this.color = '#d4a373';
+    this.maxTemperature = 200;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: this.toWorld(new Vector2(-this.width / 2, 0)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(this.width / 2, 0)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: this.toWorld(new Vector2(0, -this.height / 2)),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 3) {
+      this.terminals[END_A].position = this.toWorld(new Vector2(-this.width / 2, 0));
+      this.terminals[END_B].position = this.toWorld(new Vector2(this.width / 2, 0));
+      this.terminals[WIPER].position = this.toWorld(new Vector2(0, -this.height / 2));
+    }
+  }
+
+  // End-to-end resistance
+  getResistance(): number {
+    return this.isBurned ? Infinity : this.resistance;
+  }
+
+  setResistance(resistance: number): void {
+    this.resistance = Math.max(1, resistance);
+  }
+
+  getWiper(): number {
+    return this.wiper;
+  }
+
+  setWiper(position: number): void {
+    this.wiper = Math.max(0, Math.min(1, position));
+  }
+
+  getTaper(): PotentiometerTaper {
+    return this.taper;
+  }
+
+  setTaper(taper: PotentiometerTaper): void {
+    this.taper = taper;
+  }
+
+  getRatedPower(): number {
+    return this.ratedPower;
+  }
+
+  setRatedPower(watts: number): void {
+    this.ratedPower = Math.max(0.01, watts);
+  }
+
+  // Fraction of the track between end A and the wiper
+  getTrackFraction(): number {
+    if (this.taper === PotentiometerTaper.LOGARITHMIC) {
+      const base = 100;
+      return (Math.pow(base, this.wiper) - 1) / (base - 1);
+    }
+    return this.wiper;
+  }
+
+  // Resistance from end A to the wiper
+  getResistanceA(): number {
+    return this.getTrackFraction() * this.resistance + this.wiperResistance;
+  }
+
+  // Resistance from the wiper to end B
+  getResistanceB(): number {
+    return (1 - this.getTrackFraction()) * this.resistance + this.wiperResistance;
+  }
+
+  // Wiper knob on the canvas, for dragging
+  getWiperHandle(): Vector2 {
+    return this.toWorld(new Vector2((this.wiper - 0.5) * this.getTrackLength(), -4));
+  }
+
+  // Move the wiper to the point on the track closest to a canvas position
+  setWiperFromPoint(point: Vector2): void {
+    const axis = new Vector2(Math.cos(this.rotation), Math.sin(this.rotation));
+    const along = point.subtract(this.position).dot(axis);
+    this.setWiper(along / this.getTrackLength() + 0.5);
+  }
+
+  getTrackLength(): number {
+    return this.width * 0.6;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    if (this.isBurned) return [];
+
+    return [
+      { from: END_A, to: WIPER, kind: CouplingKind.CONDUCTIVE },
+      { from: WIPER, to: END_B, kind: CouplingKind.CONDUCTIVE }
+    ];
+  }
+
+  stamp(system: MNASystem): void {
+    if (this.isBurned) return;
+
+    const wiper = system.getNode(this.terminals[WIPER]);
+    system.stampConductance(system.getNode(this.terminals[END_A]), wiper, 1 / this.getResistanceA());
+    system.stampConductance(wiper, system.getNode(this.terminals[END_B]), 1 / this.getResistanceB());
+  }
+
+  stampAC(system: ACSystem): void {
+    if (this.isBurned) return;
+
+    const wiper = system.getNode(this.terminals[WIPER]);
+    system.stampAdmittance(system.getNode(this.terminals[END_A]), wiper, 1 / this.getResistanceA());
+    system.stampAdmittance(wiper, system.getNode(this.terminals[END_B]), 1 / this.getResistanceB());
+  }
+
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    if (this.isBurned) {
+      this.terminals.forEach(t => (t.current = 0));
+      return;
+    }
+
+    const vWiper = this.terminals[WIPER].voltage;
+    const currentA = (this.terminals[END_A].voltage - vWiper) / this.getResistanceA();
+    const currentB = (this.terminals[END_B].voltage - vWiper) / this.getResistanceB();
+
+    this.terminals[END_A].current = currentA;
+    this.terminals[END_B].current = currentB;
+    this.terminals[WIPER].current = -(currentA + currentB);
+  }
+
+  // Voltage across the whole track
+  getVoltage(): number {
+    if (this.terminals.length === 3) {
+      return this.terminals[END_A].voltage - this.terminals[END_B].voltage;
+    }
+    return 0;
+  }
+
+  // Current into end A
+  getCurrent(): number {
+    return this.isBurned ? 0 : this.terminals[END_A].current;
+  }
+
+  getWiperVoltage(): number {
+    return this.terminals[WIPER].voltage;
+  }
+
+  update(deltaTime: number): void {
+    const currentA = this.terminals[END_A].current;
+    const currentB = this.terminals[END_B].current;
+    this.powerDissipation = currentA * currentA * this.getResistanceA() + currentB * currentB * this.getResistanceB();
+
+    // Check if exceeding rated power
+    if (this.powerDissipation > this.ratedPower * 2) {
+      this.isBurned = true;
+    }
+
+    this.updateTemperature(deltaTime);
+  }
+}
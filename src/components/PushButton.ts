@@ -0,0 +1,121 @@
+/**
+ * Push Button - Momentary switch, normally open or normally closed
+ *
+ * Changes state only while it is held down, by the mouse on its cap or by
+ * its keyboard key, and springs back as soon as it is let go.
+ */
+
+import { Component, ComponentType, Momentary } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+
+export class PushButton extends Component implements Momentary {
+  private normallyOpen: boolean;
+  private pressed: boolean = false;
+  private key: string | null;
+  private closedResistance: number = 0.01; // Almost zero when closed
+  private openResistance: number = 1e9; // Very high when open
+
+  constructor(position: Vector2, normallyOpen: boolean = true, key: string | null = null) {
+    super(ComponentType.PUSH_BUTTON, position);
+    this.normallyOpen = normallyOpen;
+    this.key = key;
+    this.width = 60;
+    this.height = 40;
+    this.color = '#7f8c8d';
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  press(): void {
+    this.pressed = true;
+  }
+
+  release(): void {
+    this.pressed = false;
+  }
+
+  isPressed(): boolean {
+    return this.pressed;
+  }
+
+  getKey(): string | null {
+    return this.key;
+  }
+
+  setKey(key: string | null): void {
+    this.key = key;
+  }
+
+  isNormallyOpen(): boolean {
+    return this.normallyOpen;
+  }
+
+  // Closed when pressed (NO) or when left alone (NC)
+  isClosed(): boolean {
+    return this.pressed === this.normallyOpen;
+  }
+
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 2 + (this.isClosed() ? 1 : 0);
+  }
+
+  // Button cap on the canvas, for pressing with the mouse
+  getCapHandle(): Vector2 {
+    return this.toWorld(new Vector2(0, -this.height / 4));
+  }
+
+  getResistance(): number {
+    return this.isClosed() ? this.closedResistance : this.openResistance;
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  update(deltaTime: number): void {
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.getResistance();
+    this.updateTemperature(deltaTime);
+  }
+}
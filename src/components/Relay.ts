@@ -0,0 +1,312 @@
+/**
+ * Relay - Electromagnetic coil driving a set of SPDT contacts
+ *
+ * Terminals: 0 and 1 = coil, 2 = common, 3 = normally open, 4 = normally
+ * closed. The coil is an inductance in series with its winding resistance.
+ * Once its current reaches the pull-in current the armature starts to move,
+ * and it only falls back when the current drops below the (much lower)
+ * drop-out current. The armature takes a few milliseconds to travel, and
+ * the contacts break before they make, as in a real relay.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { InductorCompanion, inductorCompanion, inductorVoltage } from '../physics/DeviceModels';
+
+export const COIL_A = 0;
+export const COIL_B = 1;
+export const COMMON = 2;
+export const NORMALLY_OPEN = 3;
+export const NORMALLY_CLOSED = 4;
+
+const COIL_POWER = 0.36; // Watts drawn by the coil at its rated voltage
+const COIL_TIME_CONSTANT = 0.004; // L/R of the winding (s)
+
+export class Relay extends Component {
+  private coilVoltage: number; // Rated coil voltage (V)
+  private coilResistance: number = 0; // Winding resistance (Ω)
+  private coilInductance: number = 0; // Henries
+  private pullInCurrent: number = 0; // Coil current that pulls the armature in (A)
+  private dropOutCurrent: number = 0; // Coil current below which it falls back (A)
+  private operateTime: number = 0.01; // Armature travel when pulling in (s)
+  private releaseTime: number = 0.005; // Armature travel when falling back (s)
+  private contactResistance: number = 0.05; // Ohms, closed
+  private openResistance: number = 1e9; // Very high when open
+
+  // Coil state at the end of the last timestep
+  private coilCurrent: number = 0; // A
+  private previousCoilVoltage: number = 0; // History term for trapezoidal integration
+  private energized: boolean = false; // Coil has pulled in and not yet dropped out
+  private armature: number = 0; // Travel from rest (0) to fully pulled in (1)
+
+  constructor(position: Vector2, coilVoltage: number = 9) {
+    super(ComponentType.RELAY, position);
+    this.coilVoltage = coilVoltage;
+    this.setCoilVoltage(coilVoltage);
+    this.width = 90;
+    this.height = 60;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = this.getTerminalOffsets().map(offset => ({
+      position: this.toWorld(offset),
+      id: this.generateTerminalId(),
+      voltage: 0,
+      current: 0
+    }));
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 5) {
+      this.getTerminalOffsets().forEach((offset, k) => {
+        this.terminals[k].position = this.toWorld(offset);
+      });
+    }
+  }
+
+  // Coil on the left, common on the right, NO on top and NC underneath
+  private getTerminalOffsets(): Vector2[] {
+    return [
+      new Vector2(-this.width / 2, -this.height / 4),
+      new Vector2(-this.width / 2, this.height / 4),
+      new Vector2(this.width / 2, 0),
+      new Vector2(this.width / 8, -this.height / 2),
+      new Vector2(this.width / 8, this.height / 2)
+    ];
+  }
+
+  getCoilVoltage(): number {
+    return this.coilVoltage;
+  }
+
+  // Size a standard coil for its rated voltage: pulls in at 75% of it, drops out at 10%
+  setCoilVoltage(volts: number): void {
+    this.coilVoltage = Math.max(0.5, volts);
+    this.coilResistance = this.coilVoltage * this.coilVoltage / COIL_POWER;
+    this.coilInductance = this.coilResistance * COIL_TIME_CONSTANT;
+
+    const ratedCurrent = this.coilVoltage / this.coilResistance;
+    this.pullInCurrent = 0.75 * ratedCurrent;
+    this.dropOutCurrent = 0.1 * ratedCurrent;
+  }
+
+  getCoilResistance(): number {
+    return this.coilResistance;
+  }
+
+  getCoilInductance(): number {
+    return this.coilInductance;
+  }
+
+  setCoilInductance(inductance: number): void {
+    this.coilInductance = Math.max(1e-9, inductance);
+  }
+
+  getPullInCurrent(): number {
+    return this.pullInCurrent;
+  }
+
+  getDropOutCurrent(): number {
+    return this.dropOutCurrent;
+  }
+
+  // Drop-out is kept below pull-in, or the armature would chatter
+  setPullInCurrent(current: number): void {
+    this.pullInCurrent = Math.max(1e-6, current);
+    this.dropOutCurrent = Math.min(this.dropOutCurrent, this.pullInCurrent);
+  }
+
+  setDropOutCurrent(current: number): void {
+    this.dropOutCurrent = Math.min(Math.max(0, current), this.pullInCurrent);
+  }
+
+  getOperateTime(): number {
+    return this.operateTime;
+  }
+
+  setOperateTime(seconds: number): void {
+    this.operateTime = Math.max(0, seconds);
+  }
+
+  getReleaseTime(): number {
+    return this.releaseTime;
+  }
+
+  setReleaseTime(seconds: number): void {
+    this.releaseTime = Math.max(0, seconds);
+  }
+
+  isEnergized(): boolean {
+    return this.energized;
+  }
+
+  getArmaturePosition(): number {
+    return this.armature;
+  }
+
+  // Contacts break before they make: both are open while the armature travels
+  isNormallyOpenClosed(): boolean {
+    return this.armature >= 1;
+  }
+
+  isNormallyClosedClosed(): boolean {
+    return this.armature <= 0;
+  }
+
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 4 +
+      (this.isNormallyOpenClosed() ? 2 : 0) + (this.isNormallyClosedClosed() ? 1 : 0);
+  }
+
+  getCoilCurrent(): number {
+    return this.coilCurrent;
+  }
+
+  // Magnetic energy ½LI² stored in the coil (J)
+  getStoredEnergy(): number {
+    return 0.5 * this.coilInductance * this.coilCurrent * this.coilCurrent;
+  }
+
+  // Coil resistance
+  getResistance(): number {
+    return this.isBurned ? Infinity : this.coilResistance;
+  }
+
+  // Voltage across the coil
+  getVoltage(): number {
+    if (this.terminals.length === 5) {
+      return this.terminals[COIL_A].voltage - this.terminals[COIL_B].voltage;
+    }
+    return 0;
+  }
+
+  // Current into coil terminal A
+  getCurrent(): number {
+    return this.terminals.length === 5 ? this.terminals[COIL_A].current : 0;
+  }
+
+  // Current into the common terminal, shared by whichever contact is closed
+  getContactCurrent(): number {
+    return this.terminals.length === 5 ? this.terminals[COMMON].current : 0;
+  }
+
+  private getContactResistance(closed: boolean): number {
+    return closed ? this.contactResistance : this.openResistance;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    // The coil and the contacts are isolated from each other
+    const couplings: TerminalCoupling[] = [
+      { from: COMMON, to: NORMALLY_OPEN, kind: CouplingKind.CONDUCTIVE },
+      { from: COMMON, to: NORMALLY_CLOSED, kind: CouplingKind.CONDUCTIVE }
+    ];
+    if (!this.isBurned) {
+      couplings.unshift({ from: COIL_A, to: COIL_B, kind: CouplingKind.CONDUCTIVE });
+    }
+    return couplings;
+  }
+
+  getBranchCount(): number {
+    return 1;
+  }
+
+  stamp(system: MNASystem): void {
+    const pos = system.getNode(this.terminals[COIL_A]);
+    const neg = system.getNode(this.terminals[COIL_B]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+    } else if (system.getAnalysisMode() === AnalysisMode.DC) {
+      // At DC the coil is a short through its winding resistance
+      system.stampVoltageSource(pos, neg, branch, 0, this.coilResistance);
+    } else {
+      const { voltage, resistance } = this.companion(system);
+      system.stampVoltageSource(pos, neg, branch, voltage, resistance + this.coilResistance);
+    }
+
+    const common = system.getNode(this.terminals[COMMON]);
+    system.stampConductance(common, system.getNode(this.terminals[NORMALLY_OPEN]),
+      1 / this.getContactResistance(this.isNormallyOpenClosed()));
+    system.stampConductance(common, system.getNode(this.terminals[NORMALLY_CLOSED]),
+      1 / this.getContactResistance(this.isNormallyClosedClosed()));
+  }
+
+  stampAC(system: ACSystem): void {
+    const pos = system.getNode(this.terminals[COIL_A]);
+    const neg = system.getNode(this.terminals[COIL_B]);
+    const branch = system.getBranch(this);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(pos, neg, branch, 0, 1e9);
+    } else {
+      // Z = R + jωL
+      system.stampVoltageSource(pos, neg, branch, 0, this.coilResistance, system.getOmega() * this.coilInductance);
+    }
+
+    const common = system.getNode(this.terminals[COMMON]);
+    system.stampAdmittance(common, system.getNode(this.terminals[NORMALLY_OPEN]),
+      1 / this.getContactResistance(this.isNormallyOpenClosed()));
+    system.stampAdmittance(common, system.getNode(this.terminals[NORMALLY_CLOSED]),
+      1 / this.getContactResistance(this.isNormallyClosedClosed()));
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const coil = system.getBranchCurrent(system.getBranch(this));
+    this.terminals[COIL_A].current = coil;
+    this.terminals[COIL_B].current = -coil;
+
+    const vCommon = this.terminals[COMMON].voltage;
+    const toOpen = (this.terminals[NORMALLY_OPEN].voltage - vCommon) / this.getContactResistance(this.isNormallyOpenClosed());
+    const toClosed = (this.terminals[NORMALLY_CLOSED].voltage - vCommon) / this.getContactResistance(this.isNormallyClosedClosed());
+    this.terminals[NORMALLY_OPEN].current = toOpen;
+    this.terminals[NORMALLY_CLOSED].current = toClosed;
+    this.terminals[COMMON].current = -(toOpen + toClosed);
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    const dt = system.getTimeStep();
+
+    if (this.isBurned) {
+      this.coilCurrent = 0;
+      this.previousCoilVoltage = 0;
+    } else {
+      // Voltage across the ideal inductance, excluding the winding drop
+      const current = this.getCurrent();
+      this.previousCoilVoltage = inductorVoltage(this.companion(system), current);
+      this.coilCurrent = current;
+    }
+
+    // The magnet pulls in and drops out at different currents; the contacts
+    // follow the armature, which takes the operate or release time to travel
+    const magnitude = Math.abs(this.coilCurrent);
+    if (!this.energized && magnitude >= this.pullInCurrent) {
+      this.energized = true;
+    } else if (this.energized && magnitude < this.dropOutCurrent) {
+      this.energized = false;
+    }
+
+    if (this.energized) {
+      this.armature = this.operateTime > 0 ? Math.min(1, this.armature + dt / this.operateTime) : 1;
+    } else {
+      this.armature = this.releaseTime > 0 ? Math.max(0, this.armature - dt / this.releaseTime) : 0;
+    }
+  }
+
+  private companion(system: MNASystem): InductorCompanion {
+    return inductorCompanion(this.coilInductance, this.coilCurrent, this.previousCoilVoltage,
+      system.getTimeStep(), system.getIntegrationMethod());
+  }
+
+  update(deltaTime: number): void {
+    const coil = this.getCurrent();
+    const contact = this.getContactCurrent();
+    const closed = this.isNormallyOpenClosed() || this.isNormallyClosedClosed();
+    this.powerDissipation = coil * coil * this.coilResistance +
+      (closed ? contact * contact * this.contactResistance : 0);
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -24,23 +24,19 @@ export class Resistor extends Component {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -92,12 +88,6 @@ export class Resistor extends Component {
     }
 
     this.updateTemperature(deltaTime);
-
-    // Update terminal currents
-    if (this.terminals.length === 2) {
-      this.terminals[0].current = current;
-      this.terminals[1].current = -current;
-    }
   }
 
   getColorBands(): string[] {
@@ -0,0 +1,226 @@
+/**
+ * Speaker Component - Loudspeaker or active piezo buzzer
+ *
+ * A speaker is its voice-coil resistance; the cone follows the current
+ * through it, so whatever waveform drives it is what you hear. A steady
+ * current only pushes the cone out and holds it there, so DC is silent.
+ * A buzzer has its own oscillator: any forward current sounds a fixed tone,
+ * louder up to its rated current, and reverse current does nothing.
+ *
+ * Each timestep's sound pressure is queued until the audio mixer collects
+ * it through renderSound, which stretches it to the requested sample rate.
+ */
+
+import { Component, ComponentType, SoundSource } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+
+export enum SpeakerKind {
+  SPEAKER = 'speaker',
+  BUZZER = 'buzzer'
+}
+
+const DC_BLOCK_POLE = 0.98; // Per 1 ms step: the cone settles back within ~50 ms
+const MAX_PENDING_SECONDS = 1; // Sound nobody collected is dropped after this
+const LOUDNESS_TIME_CONSTANT = 0.05; // Seconds, for the drawn sound waves
+
+export class Speaker extends Component implements SoundSource {
+  private kind: SpeakerKind;
+  private resistance: number; // Voice coil or buzzer (Ω)
+  private fullScaleCurrent: number; // Current for full loudness (A)
+  private toneFrequency: number = 2400; // Buzzer oscillator (Hz)
+
+  // Sound produced since the mixer last collected it, one value per timestep:
+  // cone pressure for a speaker, tone loudness for a buzzer. A ring buffer
+  // holding MAX_PENDING_SECONDS, so with no mixer the oldest is overwritten
+  private pending: Float32Array = new Float32Array(0);
+  private pendingStart: number = 0; // Index of the oldest value
+  private pendingCount: number = 0;
+  private lastLevel: number = 0; // Last value collected, to interpolate from
+  private previousDrive: number = 0; // DC-blocking filter state
+  private previousPressure: number = 0;
+  private tonePhase: number = 0; // Radians
+  private meanSquare: number = 0; // Smoothed loudness², for rendering
+
+  constructor(position: Vector2, kind: SpeakerKind = SpeakerKind.SPEAKER) {
+    super(ComponentType.SPEAKER, position);
+    this.kind = kind;
+    if (kind === SpeakerKind.BUZZER) {
+      this.resistance = 300;
+      this.fullScaleCurrent = 0.02; // 6 V
+      this.color = '#2c3e50';
+    } else {
+      this.resistance = 8;
+      this.fullScaleCurrent = 0.25; // Half a watt
+      this.color = '#7f8c8d';
+    }
+    this.thermalResistance = 150; // Burns above roughly 0.8 W
+    this.thermalCapacity = 0.02;
+    this.width = 60;
+    this.height = 50;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = [
+      {
+        position: new Vector2(this.position.x - this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      },
+      {
+        position: new Vector2(this.position.x + this.width / 2, this.position.y),
+        id: this.generateTerminalId(),
+        voltage: 0,
+        current: 0
+      }
+    ];
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 2) {
+      const cos = Math.cos(this.rotation);
+      const sin = Math.sin(this.rotation);
+      const halfWidth = this.width / 2;
+
+      this.terminals[0].position = new Vector2(
+        this.position.x - halfWidth * cos,
+        this.position.y - halfWidth * sin
+      );
+
+      this.terminals[1].position = new Vector2(
+        this.position.x + halfWidth * cos,
+        this.position.y + halfWidth * sin
+      );
+    }
+  }
+
+  getKind(): SpeakerKind {
+    return this.kind;
+  }
+
+  getResistance(): number {
+    return this.isBurned ? Infinity : this.resistance;
+  }
+
+  setResistance(resistance: number): void {
+    this.resistance = Math.max(0.1, resistance);
+  }
+
+  getFullScaleCurrent(): number {
+    return this.fullScaleCurrent;
+  }
+
+  setFullScaleCurrent(current: number): void {
+    this.fullScaleCurrent = Math.max(1e-6, current);
+  }
+
+  getToneFrequency(): number {
+    return this.toneFrequency;
+  }
+
+  setToneFrequency(frequency: number): void {
+    this.toneFrequency = Math.max(1, frequency);
+  }
+
+  getVoltage(): number {
+    if (this.terminals.length === 2) {
+      return this.terminals[0].voltage - this.terminals[1].voltage;
+    }
+    return 0;
+  }
+
+  getCurrent(): number {
+    return this.terminals.length === 2 ? this.terminals[0].current : 0;
+  }
+
+  // How loud it is right now, 0 (silent) to about 1 (full scale)
+  getLoudness(): number {
+    return Math.sqrt(this.meanSquare);
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    const dt = system.getTimeStep();
+    const drive = this.getCurrent() / this.fullScaleCurrent;
+
+    let level: number;
+    let loudness: number;
+    if (this.kind === SpeakerKind.BUZZER) {
+      level = Math.min(Math.max(drive, 0), 1);
+      loudness = level;
+    } else {
+      // The cone only moves while the current changes: a first-order high-pass
+      const pole = Math.pow(DC_BLOCK_POLE, dt / 0.001);
+      level = drive - this.previousDrive + pole * this.previousPressure;
+      this.previousDrive = drive;
+      this.previousPressure = level;
+      loudness = level * Math.SQRT2; // RMS of a sine reads as its peak
+    }
+
+    const alpha = 1 - Math.exp(-dt / LOUDNESS_TIME_CONSTANT);
+    this.meanSquare += (loudness * loudness - this.meanSquare) * alpha;
+
+    this.queueLevel(level, Math.max(1, Math.round(MAX_PENDING_SECONDS / dt)));
+  }
+
+  private queueLevel(level: number, capacity: number): void {
+    if (this.pending.length !== capacity) {
+      // Timestep changed; what was queued at the old rate is dropped
+      this.pending = new Float32Array(capacity);
+      this.pendingStart = 0;
+      this.pendingCount = 0;
+    }
+
+    this.pending[(this.pendingStart + this.pendingCount) % capacity] = level;
+    if (this.pendingCount < capacity) {
+      this.pendingCount++;
+    } else {
+      this.pendingStart = (this.pendingStart + 1) % capacity;
+    }
+  }
+
+  renderSound(out: Float32Array, sampleRate: number): void {
+    const count = this.pendingCount;
+    const start = this.pendingStart;
+    const levels = this.pending;
+    const levelAt = (k: number) => levels[(start + k) % levels.length];
+    this.pendingStart = 0;
+    this.pendingCount = 0;
+    if (out.length === 0) {
+      if (count > 0) this.lastLevel = levelAt(count - 1);
+      return;
+    }
+    if (count === 0) {
+      // No simulated time passed; let the last value die away rather than hold it
+      this.lastLevel = 0;
+      out.fill(0);
+      return;
+    }
+
+    // Spread the timesteps evenly over the buffer, interpolating between them
+    const phaseStep = (2 * Math.PI * this.toneFrequency) / sampleRate;
+    for (let i = 0; i < out.length; i++) {
+      const position = ((i + 1) * count) / out.length - 1;
+      const index = Math.floor(position);
+      const from = index < 0 ? this.lastLevel : levelAt(index);
+      const to = levelAt(Math.min(index + 1, count - 1));
+      const level = from + (to - from) * (position - index);
+
+      if (this.kind === SpeakerKind.BUZZER) {
+        // Piezo disc driven near resonance: a sine with a little third harmonic
+        this.tonePhase = (this.tonePhase + phaseStep) % (2 * Math.PI);
+        out[i] = 0.5 * level * (Math.sin(this.tonePhase) + Math.sin(3 * this.tonePhase) / 5);
+      } else {
+        out[i] = level;
+      }
+    }
+    this.lastLevel = levelAt(count - 1);
+  }
+
+  update(deltaTime: number): void {
+    const current = this.getCurrent();
+    this.powerDissipation = current * current * this.resistance;
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -2,10 +2,10 @@
  * Switch Component - SPST (Single Pole Single Throw)
  */
 
-import { Component, ComponentType } from '../core/Component';
+import { Component, ComponentType, Toggleable } from '../core/Component';
 import { Vector2 } from '../math/Vector2';
 
-export class Switch extends Component {
+export class Switch extends Component implements Toggleable {
   private isOpen: boolean = true;
   private closedResistance: number = 0.01; // Almost zero when closed
   private openResistance: number = 1e9; // Very high when open
@@ -23,23 +23,19 @@ export class Switch extends Component {
     this.terminals = [
       {
         position: new Vector2(this.position.x - this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       },
       {
         position: new Vector2(this.position.x + this.width / 2, this.position.y),
-        node: this.generateNodeId(),
+        id: this.generateTerminalId(),
         voltage: 0,
         current: 0
       }
     ];
   }
 
-  protected generateNodeId(): number {
-    return Math.floor(Math.random() * 1000000);
-  }
-
   protected updateTerminalPositions(): void {
     if (this.terminals.length === 2) {
       const cos = Math.cos(this.rotation);
@@ -70,6 +66,10 @@ export class Switch extends Component {
     return this.isOpen;
   }
 
+  getDiscreteState(): number {
+    return super.getDiscreteState() * 2 + (this.isOpen ? 1 : 0);
+  }
+
   getResistance(): number {
     return this.isOpen ? this.openResistance : this.closedResistance;
   }
@@ -92,11 +92,5 @@ export class Switch extends Component {
     const current = this.getCurrent();
     this.powerDissipation = current * current * this.closedResistance;
     this.updateTemperature(deltaTime);
-
-    // Update terminal currents
-    if (this.terminals.length === 2) {
-      this.terminals[0].current = current;
-      this.terminals[1].current = -current;
-    }
   }
 }
@@ -0,0 +1,282 @@
+/**
+ * Transformer - Two magnetically coupled windings
+ *
+ * Terminals: 0 = primary (dotted end), 1 = primary, 2 = secondary (dotted
+ * end), 3 = secondary. The primary's own inductance is the magnetizing
+ * inductance; the secondary has turns ratio² times that, and the mutual
+ * inductance is k·√(L1·L2). Only a changing current couples the windings,
+ * so on a steady DC supply the secondary goes dead while the primary, with
+ * nothing but its winding resistance to limit it, saturates the core.
+ */
+
+import { Component, ComponentType, CouplingKind, TerminalCoupling } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { MNASystem, AnalysisMode } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
+import { CoupledInductorCompanion, coupledInductorCompanion } from '../physics/DeviceModels';
+
+export const PRIMARY_DOT = 0;
+export const PRIMARY = 1;
+export const SECONDARY_DOT = 2;
+export const SECONDARY = 3;
+
+export class Transformer extends Component {
+  private turnsRatio: number; // Secondary turns per primary turn
+  private magnetizingInductance: number; // Primary inductance, unsaturated (H)
+  private couplingCoefficient: number = 0.99; // k; the rest of the flux leaks
+  private primaryResistance: number = 1; // Ohms
+  private saturationCurrent: number = 0.1; // Magnetizing current where the core saturates (A)
+
+  // Winding state at the end of the last timestep
+  private primaryCurrent: number = 0; // A, into the primary dot
+  private secondaryCurrent: number = 0; // A, into the secondary dot
+  private previousPrimaryVoltage: number = 0; // History terms for trapezoidal integration
+  private previousSecondaryVoltage: number = 0;
+
+  constructor(position: Vector2, turnsRatio: number = 2, magnetizingInductance: number = 50) {
+    super(ComponentType.TRANSFORMER, position);
+    this.turnsRatio = turnsRatio;
+    this.magnetizingInductance = magnetizingInductance;
+    this.width = 80;
+    this.height = 60;
+    this.initializeTerminals();
+  }
+
+  private initializeTerminals(): void {
+    this.terminals = this.getTerminalOffsets().map(offset => ({
+      position: this.toWorld(offset),
+      id: this.generateTerminalId(),
+      voltage: 0,
+      current: 0
+    }));
+  }
+
+  protected updateTerminalPositions(): void {
+    if (this.terminals.length === 4) {
+      this.getTerminalOffsets().forEach((offset, k) => {
+        this.terminals[k].position = this.toWorld(offset);
+      });
+    }
+  }
+
+  // Primary on the left, secondary on the right, dotted ends on top
+  private getTerminalOffsets(): Vector2[] {
+    return [
+      new Vector2(-this.width / 2, -this.height / 4),
+      new Vector2(-this.width / 2, this.height / 4),
+      new Vector2(this.width / 2, -this.height / 4),
+      new Vector2(this.width / 2, this.height / 4)
+    ];
+  }
+
+  getTurnsRatio(): number {
+    return this.turnsRatio;
+  }
+
+  setTurnsRatio(ratio: number): void {
+    this.turnsRatio = Math.max(0.01, ratio);
+  }
+
+  getMagnetizingInductance(): number {
+    return this.magnetizingInductance;
+  }
+
+  setMagnetizingInductance(inductance: number): void {
+    this.magnetizingInductance = Math.max(1e-6, inductance);
+  }
+
+  getCouplingCoefficient(): number {
+    return this.couplingCoefficient;
+  }
+
+  setCouplingCoefficient(k: number): void {
+    this.couplingCoefficient = Math.min(Math.max(k, 0), 0.9999);
+  }
+
+  getSaturationCurrent(): number {
+    return this.saturationCurrent;
+  }
+
+  setSaturationCurrent(current: number): void {
+    this.saturationCurrent = Math.max(1e-6, current);
+  }
+
+  getPrimaryResistance(): number {
+    return this.primaryResistance;
+  }
+
+  setPrimaryResistance(resistance: number): void {
+    this.primaryResistance = Math.max(1e-3, resistance);
+  }
+
+  // Same copper area for more turns: resistance scales with the turns ratio squared
+  getSecondaryResistance(): number {
+    return this.primaryResistance * this.turnsRatio * this.turnsRatio;
+  }
+
+  // Magnetizing current referred to the primary; this is what magnetizes the core
+  getMagnetizingCurrent(): number {
+    return this.primaryCurrent + this.turnsRatio * this.secondaryCurrent;
+  }
+
+  // How far into saturation the core is (0 = linear, approaching 1 = saturated)
+  getSaturation(): number {
+    const ratio = this.getMagnetizingCurrent() / this.saturationCurrent;
+    return 1 - 1 / (1 + ratio * ratio);
+  }
+
+  // Primary, secondary and mutual inductance at the present magnetizing current
+  getInductances(): { primary: number; secondary: number; mutual: number } {
+    const primary = this.magnetizingInductance * (1 - this.getSaturation());
+    return {
+      primary,
+      secondary: primary * this.turnsRatio * this.turnsRatio,
+      mutual: this.couplingCoefficient * primary * this.turnsRatio
+    };
+  }
+
+  // Primary winding resistance
+  getResistance(): number {
+    return this.isBurned ? Infinity : this.primaryResistance;
+  }
+
+  // Voltage across the primary
+  getVoltage(): number {
+    if (this.terminals.length === 4) {
+      return this.terminals[PRIMARY_DOT].voltage - this.terminals[PRIMARY].voltage;
+    }
+    return 0;
+  }
+
+  // Current into the primary's dotted end
+  getCurrent(): number {
+    return this.terminals.length === 4 ? this.terminals[PRIMARY_DOT].current : 0;
+  }
+
+  getSecondaryVoltage(): number {
+    if (this.terminals.length === 4) {
+      return this.terminals[SECONDARY_DOT].voltage - this.terminals[SECONDARY].voltage;
+    }
+    return 0;
+  }
+
+  // Current into the secondary's dotted end; negative while it powers a load
+  getSecondaryCurrent(): number {
+    return this.terminals.length === 4 ? this.terminals[SECONDARY_DOT].current : 0;
+  }
+
+  getCouplings(): TerminalCoupling[] {
+    // Magnetic coupling carries no DC, so the windings are isolated; a
+    // secondary loop without its own ground is still driven, not floating
+    if (this.isBurned) return [];
+
+    return [
+      { from: PRIMARY_DOT, to: PRIMARY, kind: CouplingKind.CONDUCTIVE },
+      { from: SECONDARY_DOT, to: SECONDARY, kind: CouplingKind.CONDUCTIVE },
+      { from: PRIMARY_DOT, to: SECONDARY_DOT, kind: CouplingKind.MAGNETIC }
+    ];
+  }
+
+  getBranchCount(): number {
+    return 2;
+  }
+
+  stamp(system: MNASystem): void {
+    const p1 = system.getNode(this.terminals[PRIMARY_DOT]);
+    const n1 = system.getNode(this.terminals[PRIMARY]);
+    const p2 = system.getNode(this.terminals[SECONDARY_DOT]);
+    const n2 = system.getNode(this.terminals[SECONDARY]);
+    const b1 = system.getBranch(this, 0);
+    const b2 = system.getBranch(this, 1);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(p1, n1, b1, 0, 1e9);
+      system.stampVoltageSource(p2, n2, b2, 0, 1e9);
+      return;
+    }
+
+    // At DC both windings are shorts through their resistance, and nothing couples
+    if (system.getAnalysisMode() === AnalysisMode.DC) {
+      system.stampVoltageSource(p1, n1, b1, 0, this.primaryResistance);
+      system.stampVoltageSource(p2, n2, b2, 0, this.getSecondaryResistance());
+      return;
+    }
+
+    // Coupled companion model: each winding sees its own and the other's di/dt
+    const { r11, r22, r12, v1, v2 } = this.companion(system);
+    system.stampVoltageSource(p1, n1, b1, v1, r11 + this.primaryResistance);
+    system.stampVoltageSource(p2, n2, b2, v2, r22 + this.getSecondaryResistance());
+    system.stampMatrix(b1, b2, -r12);
+    system.stampMatrix(b2, b1, -r12);
+  }
+
+  stampAC(system: ACSystem): void {
+    const p1 = system.getNode(this.terminals[PRIMARY_DOT]);
+    const n1 = system.getNode(this.terminals[PRIMARY]);
+    const p2 = system.getNode(this.terminals[SECONDARY_DOT]);
+    const n2 = system.getNode(this.terminals[SECONDARY]);
+    const b1 = system.getBranch(this, 0);
+    const b2 = system.getBranch(this, 1);
+
+    if (this.isBurned) {
+      system.stampVoltageSource(p1, n1, b1, 0, 1e9);
+      system.stampVoltageSource(p2, n2, b2, 0, 1e9);
+      return;
+    }
+
+    // Z = R + jωL on each winding, jωM between them
+    const omega = system.getOmega();
+    const { primary, secondary, mutual } = this.getInductances();
+    system.stampVoltageSource(p1, n1, b1, 0, this.primaryResistance, omega * primary);
+    system.stampVoltageSource(p2, n2, b2, 0, this.getSecondaryResistance(), omega * secondary);
+    system.stampMatrix(b1, b2, 0, -omega * mutual);
+    system.stampMatrix(b2, b1, 0, -omega * mutual);
+  }
+
+  protected updateTerminalCurrents(system: MNASystem): void {
+    const primary = system.getBranchCurrent(system.getBranch(this, 0));
+    const secondary = system.getBranchCurrent(system.getBranch(this, 1));
+    this.terminals[PRIMARY_DOT].current = primary;
+    this.terminals[PRIMARY].current = -primary;
+    this.terminals[SECONDARY_DOT].current = secondary;
+    this.terminals[SECONDARY].current = -secondary;
+  }
+
+  acceptTimeStep(system: MNASystem): void {
+    if (this.isBurned) {
+      this.primaryCurrent = 0;
+      this.secondaryCurrent = 0;
+      this.previousPrimaryVoltage = 0;
+      this.previousSecondaryVoltage = 0;
+      return;
+    }
+
+    // Voltages across the ideal inductances, excluding the winding drops
+    const primary = this.getCurrent();
+    const secondary = this.getSecondaryCurrent();
+    const { r11, r22, r12, v1, v2 } = this.companion(system);
+    this.previousPrimaryVoltage = v1 + r11 * primary + r12 * secondary;
+    this.previousSecondaryVoltage = v2 + r12 * primary + r22 * secondary;
+    this.primaryCurrent = primary;
+    this.secondaryCurrent = secondary;
+  }
+
+  private companion(system: MNASystem): CoupledInductorCompanion {
+    const { primary, secondary, mutual } = this.getInductances();
+    return coupledInductorCompanion(
+      { self1: primary, self2: secondary, mutual },
+      [this.primaryCurrent, this.secondaryCurrent],
+      [this.previousPrimaryVoltage, this.previousSecondaryVoltage],
+      system.getTimeStep(),
+      system.getIntegrationMethod()
+    );
+  }
+
+  update(deltaTime: number): void {
+    const primary = this.getCurrent();
+    const secondary = this.getSecondaryCurrent();
+    this.powerDissipation = primary * primary * this.primaryResistance +
+      secondary * secondary * this.getSecondaryResistance();
+    this.updateTemperature(deltaTime);
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Zener Diode Component - Diode specified by its reverse breakdown voltage
+ */
+
+import { ComponentType } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { Diode } from './Diode';
+
+export class ZenerDiode extends Diode {
+  constructor(position: Vector2, zenerVoltage: number = 5.1) {
+    super(position, zenerVoltage, ComponentType.ZENER);
+    this.saturationCurrent = 1e-12;
+    this.emissionCoefficient = 1.1;
+    this.breakdownCurrent = 5e-3; // Test current Izt the zener voltage is specified at
+    this.powerRating = 1;
+  }
+
+  getZenerVoltage(): number {
+    return this.breakdownVoltage;
+  }
+
+  setZenerVoltage(voltage: number): void {
+    this.setBreakdownVoltage(voltage);
+  }
+}
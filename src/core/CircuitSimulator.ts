@@ -5,6 +5,9 @@
 import { PhysicsEngine } from '../physics/PhysicsEngine';
 import { Component } from './Component';
 import { Wire } from './Wire';
+import { Net, Netlist } from './Netlist';
+import { CircuitDiagnostic } from '../physics/CircuitDiagnostics';
+import { OperatingPoint, ACSweep, ACSweepOptions } from '../physics/AnalysisResults';
 import { Vector2 } from '../math/Vector2';
 
 export class CircuitSimulator {
@@ -25,12 +28,16 @@ export class CircuitSimulator {
     const index = this.components.indexOf(component);
     if (index > -1) {
       this.components.splice(index, 1);
-      this.physicsEngine.removeComponent(component);
 
       // Remove connected wires
-      this.wires = this.wires.filter(wire =>
-        wire.getStartComponent() !== component && wire.getEndComponent() !== component
+      const connected = this.wires.filter(wire =>
+        wire.getStartComponent() === component || wire.getEndComponent() === component
       );
+      for (const wire of connected) {
+        this.removeWire(wire);
+      }
+
+      this.physicsEngine.removeComponent(component);
     }
   }
 
@@ -55,6 +62,42 @@ export class CircuitSimulator {
     return this.wires;
   }
 
+  getNetlist(): Netlist {
+    return this.physicsEngine.getNetlist();
+  }
+
+  getDiagnostics(): CircuitDiagnostic[] {
+    return this.physicsEngine.getDiagnostics();
+  }
+
+  // Steady-state DC solution of the current circuit; does not advance time
+  computeOperatingPoint(): OperatingPoint {
+    return this.physicsEngine.solveOperatingPoint();
+  }
+
+  // Small-signal frequency response from one net to another
+  runACSweep(input: Net, output: Net, options: Partial<ACSweepOptions> = {}): ACSweep {
+    return this.physicsEngine.solveACSweep(input, output, options);
+  }
+
+  // Terminal within `radius` of a point, nearest first; terminals can sit outside a part's body
+  getTerminalAt(position: Vector2, radius: number = 12): { component: Component; terminal: number } | null {
+    let best: { component: Component; terminal: number } | null = null;
+    let bestDistance = radius;
+
+    for (const component of this.components) {
+      component.getTerminals().forEach((terminal, index) => {
+        const distance = Vector2.distance(position, terminal.position);
+        if (distance <= bestDistance) {
+          best = { component, terminal: index };
+          bestDistance = distance;
+        }
+      });
+    }
+
+    return best;
+  }
+
   getComponentAt(position: Vector2): Component | null {
     for (let i = this.components.length - 1; i >= 0; i--) {
       if (this.components[i].containsPoint(position)) {
@@ -68,6 +111,6 @@ export class CircuitSimulator {
     this.components = [];
     this.wires = [];
     this.physicsEngine.clear();
-    Component.resetNodeCounter();
+    Component.resetTerminalCounter();
   }
 }
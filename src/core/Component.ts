@@ -3,6 +3,8 @@
  */
 
 import { Vector2 } from '../math/Vector2';
+import { MNASystem } from '../physics/MNASystem';
+import { ACSystem } from '../physics/ACSystem';
 
 export enum ComponentType {
   BATTERY = 'battery',
@@ -10,13 +12,79 @@ export enum ComponentType {
   LED = 'led',
   CAPACITOR = 'capacitor',
   SWITCH = 'switch',
+  DOUBLE_THROW_SWITCH = 'double-throw-switch',
+  PUSH_BUTTON = 'push-button',
   MOTOR = 'motor',
-  INDUCTOR = 'inductor'
+  INDUCTOR = 'inductor',
+  BJT = 'bjt',
+  MOSFET = 'mosfet',
+  POTENTIOMETER = 'potentiometer',
+  CONTROLLED_SOURCE = 'controlled-source',
+  OP_AMP = 'op-amp',
+  FUNCTION_GENERATOR = 'function-generator',
+  CURRENT_SOURCE = 'current-source',
+  FUSE = 'fuse',
+  CIRCUIT_BREAKER = 'circuit-breaker',
+  BULB = 'bulb',
+  RELAY = 'relay',
+  TRANSFORMER = 'transformer',
+  SPEAKER = 'speaker',
+  DIODE = 'diode',
+  ZENER = 'zener',
+  GROUND = 'ground'
+}
+
+// How a component ties two of its terminals together, for topology checks
+export enum CouplingKind {
+  CONDUCTIVE = 'conductive',         // Finite resistance, conducts at DC
+  CAPACITIVE = 'capacitive',         // Blocks DC, conducts in transient
+  VOLTAGE_SOURCE = 'voltage-source', // Ideal voltage constraint, no series resistance
+  CURRENT_SOURCE = 'current-source', // Forces a current, sets no voltage
+  MAGNETIC = 'magnetic'              // Transformer windings: isolated, but one drives the other
+}
+
+export interface TerminalCoupling {
+  from: number; // Terminal indices
+  to: number;
+  kind: CouplingKind;
+}
+
+// Parts the user flips by hand with a double-click
+export interface Toggleable {
+  toggle(): void;
+}
+
+// Parts that only change state while held down, by the mouse or a key
+export interface Momentary {
+  press(): void;
+  release(): void;
+  isPressed(): boolean;
+  getKey(): string | null; // Keyboard key that holds it down, if any
+}
+
+// Parts that make a sound; the mixer collects what each produced since it last asked
+export interface SoundSource {
+  // Fill out with sound pressure (roughly -1..1) covering the simulated time
+  // since the previous call, at the given sample rate
+  renderSound(out: Float32Array, sampleRate: number): void;
+}
+
+export function isToggleable(component: Component): component is Component & Toggleable {
+  return typeof (component as Partial<Toggleable>).toggle === 'function';
+}
+
+export function isMomentary(component: Component): component is Component & Momentary {
+  const momentary = component as Partial<Momentary>;
+  return typeof momentary.press === 'function' && typeof momentary.release === 'function';
+}
+
+export function isSoundSource(component: Component): component is Component & SoundSource {
+  return typeof (component as Partial<SoundSource>).renderSound === 'function';
 }
 
 export interface Terminal {
   position: Vector2;
-  node: number; // Node ID for circuit analysis
+  id: number; // Stable terminal ID; nets are derived by the Netlist
   voltage: number;
   current: number;
 }
@@ -29,6 +97,8 @@ export abstract class Component {
   protected type: ComponentType;
   protected temperature: number = 25; // Celsius
   protected maxTemperature: number = 150;
+  protected thermalResistance: number = 10; // °C/W to ambient
+  protected thermalCapacity: number = 50; // J/°C
   protected isBurned: boolean = false;
   protected powerDissipation: number = 0;
 
@@ -37,8 +107,8 @@ export abstract class Component {
   protected height: number = 40;
   protected color: string = '#333';
 
-  // Static node counter for unique IDs
-  private static nextNodeId: number = 1;
+  // Static terminal counter for unique IDs
+  private static nextTerminalId: number = 1;
 
   constructor(type: ComponentType, position: Vector2) {
     this.type = type;
@@ -46,12 +116,12 @@ export abstract class Component {
     this.id = `${type}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  protected generateNodeId(): number {
-    return Component.nextNodeId++;
+  protected generateTerminalId(): number {
+    return Component.nextTerminalId++;
   }
 
-  static resetNodeCounter(): void {
-    Component.nextNodeId = 1;
+  static resetTerminalCounter(): void {
+    Component.nextTerminalId = 1;
   }
 
   abstract getResistance(): number;
@@ -117,6 +187,12 @@ export abstract class Component {
     return this.isBurned;
   }
 
+  // Contact positions and burn-out: whatever changes the circuit in one jump.
+  // The engine restarts integration when it changes; overrides fold in super's
+  getDiscreteState(): number {
+    return this.isBurned ? 1 : 0;
+  }
+
   containsPoint(point: Vector2): boolean {
     const halfWidth = this.width / 2;
     const halfHeight = this.height / 2;
@@ -133,17 +209,116 @@ export abstract class Component {
     // Override in subclasses
   }
 
+  // Rotate an offset from the component's centre into canvas coordinates
+  protected toWorld(offset: Vector2): Vector2 {
+    const cos = Math.cos(this.rotation);
+    const sin = Math.sin(this.rotation);
+    return new Vector2(
+      this.position.x + offset.x * cos - offset.y * sin,
+      this.position.y + offset.x * sin + offset.y * cos
+    );
+  }
+
+  // Terminal that makes a natural ground reference (e.g. a source's negative side)
+  getReferenceTerminal(): number | null {
+    return null;
+  }
+
+  // Electrical paths between terminals; default: everything conducts to terminal 0
+  getCouplings(): TerminalCoupling[] {
+    if (this.isBurned || !isFinite(this.getResistance())) return [];
+
+    return this.terminals.slice(1).map((_, i) => ({
+      from: 0,
+      to: i + 1,
+      kind: CouplingKind.CONDUCTIVE
+    }));
+  }
+
+  // Number of branch-current unknowns this component adds to the MNA system
+  getBranchCount(): number {
+    return 0;
+  }
+
+  // Nonlinear parts are re-linearized on every Newton-Raphson iteration
+  isNonlinear(): boolean {
+    return false;
+  }
+
+  // Contribute this component's equations to the MNA system
+  stamp(system: MNASystem): void {
+    // Default: plain two-terminal conductance
+    if (this.terminals.length !== 2) return;
+
+    const resistance = this.getResistance();
+    if (!isFinite(resistance) || resistance <= 0) return;
+
+    system.stampConductance(
+      system.getNode(this.terminals[0]),
+      system.getNode(this.terminals[1]),
+      1 / resistance
+    );
+  }
+
+  // Small-signal equations at the last operating point; independent sources are zeroed
+  stampAC(system: ACSystem): void {
+    if (this.terminals.length !== 2) return;
+
+    const resistance = this.getResistance();
+    if (!isFinite(resistance) || resistance <= 0) return;
+
+    system.stampAdmittance(
+      system.getNode(this.terminals[0]),
+      system.getNode(this.terminals[1]),
+      1 / resistance
+    );
+  }
+
+  // Commit history (charge, flux) once a timestep's solution is final
+  acceptTimeStep(_system: MNASystem): void {
+    // Only energy-storage parts keep state between timesteps
+  }
+
+  // What stamp() carries from one solve to the next (linearization points,
+  // clamp decisions), so a side analysis can put it back when it is done
+  getSolverState(): number[] {
+    return [];
+  }
+
+  setSolverState(_state: number[]): void {
+    // Linear parts stamp the same matrix every time
+  }
+
+  // Read terminal voltages and currents back from a solved MNA system
+  applySolution(system: MNASystem): void {
+    for (const terminal of this.terminals) {
+      terminal.voltage = system.getVoltage(system.getNode(terminal));
+    }
+    this.updateTerminalCurrents(system);
+  }
+
+  // Terminal currents are positive when flowing into the component
+  protected updateTerminalCurrents(_system: MNASystem): void {
+    if (this.terminals.length !== 2) return;
+
+    const resistance = this.getResistance();
+    const current = isFinite(resistance) && resistance > 0
+      ? (this.terminals[0].voltage - this.terminals[1].voltage) / resistance
+      : 0;
+
+    this.terminals[0].current = current;
+    this.terminals[1].current = -current;
+  }
+
   protected updateTemperature(deltaTime: number): void {
     // Thermal simulation
     const ambientTemp = 25;
-    const thermalResistance = 10; // °C/W
-    const thermalCapacity = 50; // J/°C
 
     // Temperature rise from power dissipation
-    const targetTemp = ambientTemp + this.powerDissipation * thermalResistance;
+    const targetTemp = ambientTemp + this.powerDissipation * this.thermalResistance;
 
     // First-order thermal response
-    const tau = thermalCapacity * thermalResistance;
+    const tau = this.thermalCapacity * this.thermalResistance;
     const alpha = 1 - Math.exp(-deltaTime / tau);
 
     this.temperature = this.temperature + (targetTemp - this.temperature) * alpha;
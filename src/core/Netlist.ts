@@ -0,0 +1,145 @@
+/**
+ * Netlist - Electrical nets derived from the current wires
+ *
+ * Rebuilt from scratch whenever the topology changes, so removing a wire
+ * really separates the terminals it used to join. Terminals keep their own
+ * identity; which net they belong to is only known through the netlist.
+ */
+
+import { Component, ComponentType, Terminal } from './Component';
+import { Wire } from './Wire';
+
+export interface Net {
+  id: number; // 0 is always the ground reference
+  terminals: Terminal[];
+  components: Component[];
+  voltage: number; // Last solved voltage relative to ground
+}
+
+// Union-find over terminal indices with path halving and union by size
+class DisjointSet {
+  private parent: number[];
+  private size: number[];
+
+  constructor(count: number) {
+    this.parent = Array.from({ length: count }, (_, i) => i);
+    this.size = Array(count).fill(1);
+  }
+
+  find(i: number): number {
+    while (this.parent[i] !== i) {
+      this.parent[i] = this.parent[this.parent[i]];
+      i = this.parent[i];
+    }
+    return i;
+  }
+
+  union(a: number, b: number): void {
+    let rootA = this.find(a);
+    let rootB = this.find(b);
+    if (rootA === rootB) return;
+
+    if (this.size[rootA] < this.size[rootB]) {
+      [rootA, rootB] = [rootB, rootA];
+    }
+    this.parent[rootB] = rootA;
+    this.size[rootA] += this.size[rootB];
+  }
+}
+
+export class Netlist {
+  private nets: Net[] = [];
+  private netOf: Map<Terminal, Net> = new Map();
+  private hasExplicitGround: boolean = false;
+
+  constructor(components: Component[], wires: Wire[]) {
+    const terminals: Terminal[] = [];
+    const owners: Component[] = [];
+    const indexOf = new Map<Terminal, number>();
+
+    for (const component of components) {
+      for (const terminal of component.getTerminals()) {
+        indexOf.set(terminal, terminals.length);
+        terminals.push(terminal);
+        owners.push(component);
+      }
+    }
+
+    const sets = new DisjointSet(terminals.length);
+
+    for (const wire of wires) {
+      const start = wire.getStartComponent().getTerminal(wire.getStartTerminal());
+      const end = wire.getEndComponent().getTerminal(wire.getEndTerminal());
+      const a = start ? indexOf.get(start) : undefined;
+      const b = end ? indexOf.get(end) : undefined;
+
+      if (a !== undefined && b !== undefined) {
+        sets.union(a, b);
+      }
+    }
+
+    // Every ground symbol shares one reference net
+    const grounds = terminals
+      .map((_, i) => i)
+      .filter(i => owners[i].getType() === ComponentType.GROUND);
+    for (const i of grounds) {
+      sets.union(grounds[0], i);
+    }
+    this.hasExplicitGround = grounds.length > 0;
+
+    const groundIndex = this.hasExplicitGround ? grounds[0] : this.pickGroundTerminal(components, indexOf);
+
+    // Ground net first so it always gets id 0
+    const order = groundIndex === null
+      ? terminals.map((_, i) => i)
+      : [groundIndex, ...terminals.map((_, i) => i).filter(i => i !== groundIndex)];
+
+    const netByRoot = new Map<number, Net>();
+    for (const i of order) {
+      const root = sets.find(i);
+      let net = netByRoot.get(root);
+      if (!net) {
+        net = { id: this.nets.length, terminals: [], components: [], voltage: 0 };
+        netByRoot.set(root, net);
+        this.nets.push(net);
+      }
+
+      net.terminals.push(terminals[i]);
+      if (!net.components.includes(owners[i])) {
+        net.components.push(owners[i]);
+      }
+      this.netOf.set(terminals[i], net);
+    }
+  }
+
+  // Without a ground symbol, reference the first source's natural terminal
+  private pickGroundTerminal(components: Component[], indexOf: Map<Terminal, number>): number | null {
+    for (const component of components) {
+      const reference = component.getReferenceTerminal();
+      const terminal = reference === null ? null : component.getTerminal(reference);
+      if (terminal) return indexOf.get(terminal)!;
+    }
+    return indexOf.size > 0 ? 0 : null;
+  }
+
+  getNets(): Net[] {
+    return this.nets;
+  }
+
+  getNet(terminal: Terminal): Net | null {
+    return this.netOf.get(terminal) || null;
+  }
+
+  getGroundNet(): Net | null {
+    return this.nets[0] || null;
+  }
+
+  isExplicitGround(): boolean {
+    return this.hasExplicitGround;
+  }
+
+  areConnected(a: Terminal, b: Terminal): boolean {
+    const netA = this.netOf.get(a);
+    return netA !== undefined && netA === this.netOf.get(b);
+  }
+}
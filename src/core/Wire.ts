@@ -81,18 +81,27 @@ export class Wire {
     const start = this.getStartPosition();
     const end = this.getEndPosition();
 
-    // Create smooth bezier curve
+    // Create smooth bezier curve leaving each terminal away from its component
     const distance = Vector2.distance(start, end);
     const controlOffset = Math.min(distance * 0.3, 50);
+    const startDirection = this.exitDirection(this.startComponent, this.startTerminal);
+    const endDirection = this.exitDirection(this.endComponent, this.endTerminal);
 
     this.controlPoints = [
       start.clone(),
-      new Vector2(start.x + controlOffset, start.y),
-      new Vector2(end.x - controlOffset, end.y),
+      start.add(startDirection.multiply(controlOffset)),
+      end.add(endDirection.multiply(controlOffset)),
       end.clone()
     ];
   }
 
+  // Unit vector from the component's centre out through the terminal
+  private exitDirection(component: Component, terminalIndex: number): Vector2 {
+    const terminal = component.getTerminal(terminalIndex);
+    const direction = terminal ? terminal.position.subtract(component.getPosition()).normalize() : Vector2.zero();
+    return direction.length() > 0 ? direction : new Vector2(1, 0);
+  }
+
   // Get point along the wire at t (0 to 1)
   getPointAt(t: number): Vector2 {
     // Cubic Bezier curve
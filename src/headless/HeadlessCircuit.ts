@@ -0,0 +1,123 @@
+/**
+ * Headless Circuit - Build and run a circuit without canvases or the DOM
+ *
+ * Wraps CircuitSimulator and PhysicsEngine for scripts, Node and reference
+ * checks: add components, connect terminals, advance simulated time in
+ * fixed steps and read voltages, currents and analyses back, or record
+ * what the speakers, buzzers and motors would sound like as PCM samples.
+ */
+
+import { CircuitSimulator } from '../core/CircuitSimulator';
+import { Component } from '../core/Component';
+import { Wire } from '../core/Wire';
+import { Net } from '../core/Netlist';
+import { PhysicsEngine } from '../physics/PhysicsEngine';
+import { IntegrationMethod } from '../physics/MNASystem';
+import { CircuitDiagnostic } from '../physics/CircuitDiagnostics';
+import { OperatingPoint, ACSweep, ACSweepOptions } from '../physics/AnalysisResults';
+import { SoundMixer } from '../audio/SoundMixer';
+
+const AUDIO_CHUNK = 0.01; // Seconds simulated between mixes while recording
+
+export class HeadlessCircuit {
+  private physicsEngine: PhysicsEngine;
+  private simulator: CircuitSimulator;
+  private time: number = 0; // Simulated seconds since creation
+
+  constructor() {
+    this.physicsEngine = new PhysicsEngine();
+    this.simulator = new CircuitSimulator(this.physicsEngine);
+  }
+
+  add<T extends Component>(component: T): T {
+    this.simulator.addComponent(component);
+    return component;
+  }
+
+  connect(a: Component, aTerminal: number, b: Component, bTerminal: number): Wire {
+    const wire = new Wire(a, aTerminal, b, bTerminal);
+    this.simulator.addWire(wire);
+    return wire;
+  }
+
+  remove(component: Component): void {
+    this.simulator.removeComponent(component);
+  }
+
+  disconnect(wire: Wire): void {
+    this.simulator.removeWire(wire);
+  }
+
+  setIntegrationMethod(method: IntegrationMethod): void {
+    this.physicsEngine.setIntegrationMethod(method);
+  }
+
+  // Advance simulated time one solver step at a time, so component
+  // mechanics (motor inertia, heating) see the same step as the solver
+  step(seconds: number): void {
+    const timeStep = this.physicsEngine.getTimeStep();
+    const steps = Math.round(seconds / timeStep);
+
+    for (let i = 0; i < steps; i++) {
+      this.physicsEngine.update(timeStep);
+    }
+    this.time += steps * timeStep;
+  }
+
+  // Advance simulated time while recording everything that makes a sound,
+  // as mono PCM in -1..1; sound from before the call is not included
+  renderAudio(seconds: number, sampleRate: number = 8000): Float32Array {
+    const mixer = new SoundMixer(sampleRate);
+    const components = this.getComponents();
+    mixer.mix(components, 0);
+
+    const total = Math.round(seconds * sampleRate);
+    const samples = new Float32Array(total);
+    const start = this.time;
+    let written = 0;
+    while (written < total) {
+      const before = this.time;
+      this.step(Math.min(AUDIO_CHUNK, seconds - (this.time - start)));
+      // Place each chunk by the time actually simulated, so rounding never
+      // drifts; a remainder shorter than a solver step just closes the buffer
+      const end = this.time === before
+        ? total
+        : Math.min(Math.round((this.time - start) * sampleRate), total);
+      samples.set(mixer.mix(components, end - written), written);
+      written = end;
+    }
+    return samples;
+  }
+
+  getTime(): number {
+    return this.time;
+  }
+
+  // Voltage of one terminal relative to ground
+  getTerminalVoltage(component: Component, terminal: number): number {
+    const t = component.getTerminal(terminal);
+    const net = t ? this.simulator.getNetlist().getNet(t) : null;
+    return net ? net.voltage : 0;
+  }
+
+  getNet(component: Component, terminal: number): Net | null {
+    const t = component.getTerminal(terminal);
+    return t ? this.simulator.getNetlist().getNet(t) : null;
+  }
+
+  getComponents(): Component[] {
+    return this.simulator.getComponents();
+  }
+
+  getDiagnostics(): CircuitDiagnostic[] {
+    return this.simulator.getDiagnostics();
+  }
+
+  computeOperatingPoint(): OperatingPoint {
+    return this.simulator.computeOperatingPoint();
+  }
+
+  runACSweep(input: Net, output: Net, options: Partial<ACSweepOptions> = {}): ACSweep {
+    return this.simulator.runACSweep(input, output, options);
+  }
+}
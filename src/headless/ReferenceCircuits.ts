@@ -0,0 +1,1140 @@
+/**
+ * Reference Circuits - Known-answer checks for the solver
+ *
+ * Each reference builds a small circuit headlessly, runs it and compares
+ * the results against values worked out by hand from the textbook
+ * equations, so a regression in the solver shows up as a failed check.
+ */
+
+import { HeadlessCircuit } from './HeadlessCircuit';
+import { Battery, BatteryChemistry } from '../components/Battery';
+import { Resistor } from '../components/Resistor';
+import { Potentiometer, PotentiometerTaper, END_A, END_B } from '../components/Potentiometer';
+import { Capacitor } from '../components/Capacitor';
+import { Inductor } from '../components/Inductor';
+import { Switch } from '../components/Switch';
+import { DoubleThrowSwitch, poleTerminal, COMMON, THROW_A, THROW_B } from '../components/DoubleThrowSwitch';
+import { PushButton } from '../components/PushButton';
+import { Fuse } from '../components/Fuse';
+import { CircuitBreaker } from '../components/CircuitBreaker';
+import { Relay, COIL_A, COIL_B } from '../components/Relay';
+import { Bulb } from '../components/Bulb';
+import { LED } from '../components/LED';
+import { Diode } from '../components/Diode';
+import { ZenerDiode } from '../components/ZenerDiode';
+import { Motor } from '../components/Motor';
+import { BJT, BJTRegion, BASE, COLLECTOR, EMITTER } from '../components/BJT';
+import { MOSFET, GATE, DRAIN, SOURCE } from '../components/MOSFET';
+import { Ground } from '../components/Ground';
+import { OpAmp, NON_INVERTING, INVERTING, OUTPUT, SUPPLY_POSITIVE, SUPPLY_NEGATIVE } from '../components/OpAmp';
+import { Transformer, PRIMARY_DOT, PRIMARY, SECONDARY_DOT, SECONDARY } from '../components/Transformer';
+import { Speaker } from '../components/Speaker';
+import { FunctionGenerator, Waveform, MAX_FREQUENCY } from '../components/FunctionGenerator';
+import { CurrentSource } from '../components/CurrentSource';
+import {
+  ControlledSource,
+  ControlledSourceKind,
+  OUTPUT_POSITIVE,
+  OUTPUT_NEGATIVE,
+  CONTROL_POSITIVE,
+  CONTROL_NEGATIVE
+} from '../components/ControlledSource';
+import { Component } from '../core/Component';
+import { Vector2 } from '../math/Vector2';
+import { THERMAL_VOLTAGE } from '../physics/DeviceModels';
+import { IntegrationMethod } from '../physics/MNASystem';
+import { DiagnosticKind } from '../physics/CircuitDiagnostics';
+
+export interface ReferenceCheck {
+  name: string;
+  expected: number;
+  actual: number;
+  tolerance: number; // Relative
+  passed: boolean;
+}
+
+export interface ReferenceResult {
+  circuit: string;
+  checks: ReferenceCheck[];
+  passed: boolean;
+}
+
+// Series resistance every battery adds (Ohms)
+const BATTERY_RESISTANCE = 0.1;
+
+export function runReferenceCircuits(): ReferenceResult[] {
+  return [
+    voltageDivider(),
+    dividerRewired(),
+    potentiometerTapers(),
+    rcCharge(),
+    rcLowPass(),
+    rlStep(),
+    bulbInrush(),
+    ledWithResistor(),
+    diodeForward(),
+    zenerRegulator(),
+    currentSourceCompliance(),
+    batteryDischarge(),
+    motorSpinUp(),
+    motorLoads(),
+    fuseAndBreaker(),
+    relaySwitching(),
+    motorReversing(),
+    pushButtons(),
+    commonEmitter(),
+    mosfetSwitch(),
+    invertingAmplifier(),
+    transformerRatio(),
+    generatorWaveforms(),
+    speakerTone(),
+    analysesMidTransient(),
+    circuitDiagnostics()
+  ];
+}
+
+function check(name: string, expected: number, actual: number, tolerance: number): ReferenceCheck {
+  const error = Math.abs(actual - expected) / Math.max(Math.abs(expected), 1e-12);
+  return { name, expected, actual, tolerance, passed: error <= tolerance };
+}
+
+function result(circuit: string, checks: ReferenceCheck[]): ReferenceResult {
+  return { circuit, checks, passed: checks.every(c => c.passed) };
+}
+
+// Root of an increasing mismatch(i) between low and high, by bisection
+function bisect(mismatch: (i: number) => number, low: number, high: number): number {
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (mismatch(mid) > 0) high = mid;
+    else low = mid;
+  }
+  return (low + high) / 2;
+}
+
+// 9 V across 1 kΩ over 2 kΩ
+function voltageDivider(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const upper = circuit.add(new Resistor(origin, 1000));
+  const lower = circuit.add(new Resistor(origin, 2000));
+
+  circuit.connect(battery, 1, upper, 0);
+  circuit.connect(upper, 1, lower, 0);
+  circuit.connect(lower, 1, battery, 0);
+
+  const current = 9 / (3000 + BATTERY_RESISTANCE);
+  const operatingPoint = circuit.computeOperatingPoint();
+  const dcOutput = operatingPoint.nets.find(n => n.net === circuit.getNet(upper, 1))!.voltage;
+
+  circuit.step(0.1);
+
+  return result('Voltage divider', [
+    check('DC output voltage (V)', 2000 * current, dcOutput, 1e-6),
+    check('Transient output voltage (V)', 2000 * current, circuit.getTerminalVoltage(lower, 0), 1e-6),
+    check('Divider current (A)', current, upper.getCurrent(), 1e-6)
+  ]);
+}
+
+// The voltage divider again, split once by removing the wire between the
+// resistors and once by removing the upper resistor: the two ends have to
+// become separate nets and the lower resistor has to go dead
+function dividerRewired(): ReferenceResult {
+  const build = () => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    const battery = circuit.add(new Battery(origin, 9));
+    const upper = circuit.add(new Resistor(origin, 1000));
+    const lower = circuit.add(new Resistor(origin, 2000));
+
+    circuit.connect(battery, 1, upper, 0);
+    const middle = circuit.connect(upper, 1, lower, 0);
+    circuit.connect(lower, 1, battery, 0);
+    circuit.step(0.01);
+    return { circuit, battery, upper, lower, middle };
+  };
+
+  const unwired = build();
+  const before = unwired.lower.getVoltage();
+  const sharedBefore = unwired.circuit.getNet(unwired.upper, 1) === unwired.circuit.getNet(unwired.lower, 0);
+  unwired.circuit.disconnect(unwired.middle);
+  unwired.circuit.step(0.01);
+
+  const removed = build();
+  removed.circuit.remove(removed.upper);
+  removed.circuit.step(0.01);
+
+  return result('Divider rewired', [
+    check('Output before (V)', (2000 * 9) / (3000 + BATTERY_RESISTANCE), before, 1e-6),
+    check('One net before', 1, sharedBefore ? 1 : 0, 0),
+    check('Separate nets after disconnect', 1,
+      unwired.circuit.getNet(unwired.upper, 1) !== unwired.circuit.getNet(unwired.lower, 0) ? 1 : 0, 0),
+    check('No output after disconnect', 1, Math.abs(unwired.lower.getVoltage()) < 1e-6 ? 1 : 0, 0),
+    check('Separate nets after remove', 1,
+      removed.circuit.getNet(removed.battery, 1) !== removed.circuit.getNet(removed.lower, 0) ? 1 : 0, 0),
+    check('No output after remove', 1, Math.abs(removed.lower.getVoltage()) < 1e-6 ? 1 : 0, 0)
+  ]);
+}
+
+// A 10 kΩ pot across 9 V with its wiper at mid-travel. End A to the wiper is
+// half the track on the linear taper, and (100^0.5 - 1)/(100 - 1) = 1/11 of
+// it on the log taper; each half adds the 0.05 Ω wiper contact
+function potentiometerTapers(): ReferenceResult {
+  const origin = Vector2.zero();
+  const wiperVoltage = (taper: PotentiometerTaper) => {
+    const circuit = new HeadlessCircuit();
+    const battery = circuit.add(new Battery(origin, 9));
+    const pot = circuit.add(new Potentiometer(origin, 10000, taper));
+    pot.setWiper(0.5);
+
+    circuit.connect(battery, 1, pot, END_B);
+    circuit.connect(pot, END_A, battery, 0);
+    circuit.step(0.01);
+    return pot.getWiperVoltage() - circuit.getTerminalVoltage(battery, 0);
+  };
+
+  const current = 9 / (10000 + 2 * 0.05 + BATTERY_RESISTANCE);
+
+  return result('Potentiometer tapers', [
+    check('Linear wiper at half travel (V)', current * (10000 / 2 + 0.05), wiperVoltage(PotentiometerTaper.LINEAR), 1e-6),
+    check('Log wiper at half travel (V)', current * (10000 / 11 + 0.05), wiperVoltage(PotentiometerTaper.LOGARITHMIC), 1e-6)
+  ]);
+}
+
+// Steps until done() holds or limit seconds pass; returns the time taken
+function timeUntil(circuit: HeadlessCircuit, done: () => boolean, limit: number): number {
+  const start = circuit.getTime();
+  while (!done() && circuit.getTime() - start < limit) {
+    circuit.step(0.001);
+  }
+  return circuit.getTime() - start;
+}
+
+// 9 V charging 100 µF through 1 kΩ; after one time constant Vc = 9·(1 - 1/e)
+function rcCharge(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const capacitor = circuit.add(new Capacitor(origin, 100e-6));
+
+  circuit.connect(battery, 1, resistor, 0);
+  circuit.connect(resistor, 1, capacitor, 0);
+  circuit.connect(capacitor, 1, battery, 0);
+
+  const tau = (1000 + BATTERY_RESISTANCE + capacitor.getResistance()) * 100e-6;
+  circuit.step(tau);
+  const afterOneTau = capacitor.getCharge() / 100e-6;
+  circuit.step(9 * tau);
+  const afterTenTau = capacitor.getCharge() / 100e-6;
+
+  return result('RC charge', [
+    check('Capacitor voltage at t = τ (V)', 9 * (1 - Math.exp(-1)), afterOneTau, 0.01),
+    check('Capacitor voltage at t = 10τ (V)', 9 * (1 - Math.exp(-10)), afterTenTau, 0.001)
+  ]);
+}
+
+// AC sweep of a 1 kΩ, 1 µF low-pass over two decades either side of its corner.
+// The corner is found 3 dB below the peak rather than 3.01 dB, which puts it
+// a quarter of a percent under 1/(2πRC); at 1/(2πRC) itself the phase is -45°
+function rcLowPass(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const ground = circuit.add(new Ground(origin));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const capacitor = circuit.add(new Capacitor(origin, 1e-6));
+
+  circuit.connect(resistor, 1, capacitor, 0);
+  circuit.connect(capacitor, 1, ground, 0);
+
+  const corner = 1 / (2 * Math.PI * (1000 + capacitor.getResistance()) * 1e-6);
+  const sweep = circuit.runACSweep(circuit.getNet(resistor, 0)!, circuit.getNet(resistor, 1)!, {
+    startFrequency: corner / 100,
+    stopFrequency: corner * 100,
+    pointsPerDecade: 20
+  });
+  // An odd number of points, so the middle one lands on the corner
+  const atCorner = sweep.points[(sweep.points.length - 1) / 2];
+
+  return result('RC low-pass', [
+    check('One -3 dB point', 1, sweep.cutoffFrequencies.length, 0),
+    check('-3 dB frequency (Hz)', corner, sweep.cutoffFrequencies[0], 0.005),
+    check('Gain at 1/(2πRC)', Math.SQRT1_2, atCorner.magnitude, 0.001),
+    check('Phase at 1/(2πRC) (°)', -45, atCorner.phase, 0.001)
+  ]);
+}
+
+// 9 V into 100 H through 1 kΩ, after one time constant i = (V/R)·(1 - 1/e).
+// Then a second circuit, switched through the same coil with 2.2 kΩ across
+// coil and resistor: opening the switch cannot stop the coil current, which
+// carries on through the 2.2 kΩ and kicks the coil to three times the supply
+function rlStep(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const inductor = circuit.add(new Inductor(origin, 100));
+
+  circuit.connect(battery, 1, resistor, 0);
+  circuit.connect(resistor, 1, inductor, 0);
+  circuit.connect(inductor, 1, battery, 0);
+
+  const resistance = 1000 + inductor.getResistance() + BATTERY_RESISTANCE;
+  circuit.step(100 / resistance);
+  const afterOneTau = inductor.getCurrent();
+
+  const switched = new HeadlessCircuit();
+  const supply = switched.add(new Battery(origin, 9));
+  const contact = switched.add(new Switch(origin, false));
+  const series = switched.add(new Resistor(origin, 1000));
+  const coil = switched.add(new Inductor(origin, 100));
+  const flyback = switched.add(new Resistor(origin, 2200));
+
+  switched.connect(supply, 1, contact, 0);
+  switched.connect(contact, 1, series, 0);
+  switched.connect(series, 1, coil, 0);
+  switched.connect(coil, 1, supply, 0);
+  switched.connect(flyback, 0, contact, 1);
+  switched.connect(flyback, 1, supply, 0);
+
+  switched.step(1);
+  const closedCurrent = coil.getCurrent();
+  contact.setOpen(true);
+  switched.step(0.001);
+
+  // The current decays through 3.2 kΩ from where it was, it does not jump
+  const decay = Math.exp(-0.001 * (3200 + coil.getResistance()) / 100);
+
+  return result('RL step', [
+    check('Current at t = τ (A)', (9 / resistance) * (1 - Math.exp(-1)), afterOneTau, 0.01),
+    check('Current after opening (A)', closedCurrent * decay, coil.getCurrent(), 0.005),
+    check('Back-EMF after opening (V)', -3200 * coil.getCurrent(), coil.getVoltage(), 0.001)
+  ]);
+}
+
+// A 9 V 3 W bulb switched on cold. Its filament reaches 2500 °C at the
+// rated 27 Ω, so cold it is 27 Ω / (1 + 0.0045·2475); the first step draws
+// 9 V over that, and once hot the temperature settles where
+// T - 25 = 825 °C/W · P(T). The ratio between the two is the tungsten
+// coefficient's inrush, about twelve times
+function bulbInrush(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const bulb = circuit.add(new Bulb(origin));
+
+  circuit.connect(battery, 1, bulb, 0);
+  circuit.connect(bulb, 1, battery, 0);
+
+  const coldResistance = 27 / (1 + 0.0045 * 2475);
+  const resistanceAt = (temperature: number) => coldResistance * (1 + 0.0045 * (temperature - 25));
+  const powerAt = (temperature: number) => {
+    const current = 9 / (resistanceAt(temperature) + BATTERY_RESISTANCE);
+    return current * current * resistanceAt(temperature);
+  };
+  const runningTemperature = bisect(t => t - 25 - 825 * powerAt(t), 25, 3400);
+  const inrushCurrent = 9 / (coldResistance + BATTERY_RESISTANCE);
+  const runningCurrent = 9 / (resistanceAt(runningTemperature) + BATTERY_RESISTANCE);
+
+  circuit.step(0.001);
+  const firstStep = bulb.getCurrent();
+  circuit.step(1);
+
+  return result('Bulb inrush', [
+    check('Cold resistance (Ω)', coldResistance, bulb.getColdResistance(), 1e-9),
+    check('Inrush current (A)', inrushCurrent, firstStep, 1e-6),
+    check('Running current (A)', runningCurrent, bulb.getCurrent(), 1e-4),
+    check('Inrush ratio', inrushCurrent / runningCurrent, firstStep / bulb.getCurrent(), 1e-4)
+  ]);
+}
+
+// Red LED (2.0 V at 20 mA, n = 2) with 1 kΩ from 9 V
+function ledWithResistor(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const led = circuit.add(new LED(origin, 'red'));
+
+  circuit.connect(battery, 1, resistor, 0);
+  circuit.connect(resistor, 1, led, 0);
+  circuit.connect(led, 1, battery, 0);
+
+  // Solve 9 = I·R + Vf + nVt·ln(I / 20 mA) by bisection on I
+  const nVt = 2 * THERMAL_VOLTAGE;
+  const mismatch = (i: number) => i * (1000 + BATTERY_RESISTANCE) + 2.0 + nVt * Math.log(i / 0.02) - 9;
+  const current = bisect(mismatch, 1e-6, 9 / 1000);
+
+  const operatingPoint = circuit.computeOperatingPoint();
+  circuit.step(0.1);
+
+  return result('LED with resistor', [
+    check('Operating point converged', 1, operatingPoint.converged ? 1 : 0, 0),
+    check('LED current (A)', current, led.getCurrent(), 0.005),
+    check('LED voltage (V)', 2.0 + nVt * Math.log(current / 0.02), led.getVoltage(), 0.005)
+  ]);
+}
+
+// Rectifier diode (Is = 14 nA, n = 1.9) forward-biased through 1 kΩ from 9 V
+function diodeForward(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const diode = circuit.add(new Diode(origin));
+
+  circuit.connect(battery, 1, resistor, 0);
+  circuit.connect(resistor, 1, diode, 0);
+  circuit.connect(diode, 1, battery, 0);
+
+  // Solve 9 = I·R + nVt·ln(I/Is + 1) by bisection on I
+  const nVt = diode.getEmissionCoefficient() * THERMAL_VOLTAGE;
+  const is = diode.getSaturationCurrent();
+  const forwardVoltage = (i: number) => nVt * Math.log(i / is + 1);
+  const current = bisect(i => i * (1000 + BATTERY_RESISTANCE) + forwardVoltage(i) - 9, 1e-9, 9 / 1000);
+
+  circuit.step(0.1);
+
+  return result('Diode forward bias', [
+    check('Diode current (A)', current, diode.getCurrent(), 0.001),
+    check('Diode voltage (V)', forwardVoltage(current), diode.getVoltage(), 0.001)
+  ]);
+}
+
+// 5.1 V Zener (specified at Izt = 5 mA) fed through 1 kΩ from 9 V
+function zenerRegulator(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const resistor = circuit.add(new Resistor(origin, 1000));
+  const zener = circuit.add(new ZenerDiode(origin, 5.1));
+
+  circuit.connect(battery, 1, resistor, 0);
+  circuit.connect(resistor, 1, zener, 1);
+  circuit.connect(zener, 0, battery, 0);
+
+  // In breakdown I = Izt·exp((Vr - Vz) / Vt), so Vr = Vz + Vt·ln(I / Izt);
+  // solve 9 = I·R + Vr by bisection on I
+  const reverseVoltage = (i: number) => 5.1 + THERMAL_VOLTAGE * Math.log(i / 5e-3);
+  const current = bisect(i => i * (1000 + BATTERY_RESISTANCE) + reverseVoltage(i) - 9, 1e-6, 9 / 1000);
+
+  circuit.step(0.1);
+
+  return result('Zener regulator', [
+    check('In breakdown', 1, zener.isInBreakdown() ? 1 : 0, 0),
+    check('Regulated voltage (V)', reverseVoltage(current), -zener.getVoltage(), 0.001),
+    check('Zener current (A)', current, -zener.getCurrent(), 0.005)
+  ]);
+}
+
+// 10 mA with 12 V compliance into 1 kΩ through a switch: it regulates at
+// 10 V. Raised to 10 kΩ the load would need 100 V, so the source clamps at
+// 12 V and delivers 12 V / 10 kΩ; opened, it still sits at 12 V. With the
+// 1 kΩ load restored it is back to 10 mA
+function currentSourceCompliance(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const source = circuit.add(new CurrentSource(origin, 0.01, 12));
+  const load = circuit.add(new Resistor(origin, 1000));
+  const contact = circuit.add(new Switch(origin, false));
+
+  circuit.connect(source, 1, contact, 0);
+  circuit.connect(contact, 1, load, 0);
+  circuit.connect(load, 1, source, 0);
+
+  circuit.step(0.01);
+  const regulating = { current: source.getCurrent(), clamped: source.isInCompliance() };
+
+  load.setResistance(10000);
+  circuit.step(0.01);
+  const highLoad = { voltage: source.getVoltage(), current: source.getCurrent(), clamped: source.isInCompliance() };
+
+  contact.setOpen(true);
+  circuit.step(0.01);
+  const open = { voltage: source.getVoltage(), clamped: source.isInCompliance() };
+
+  contact.setOpen(false);
+  load.setResistance(1000);
+  circuit.step(0.01);
+
+  return result('Current source compliance', [
+    check('Current into 1 kΩ (A)', 0.01, regulating.current, 1e-6),
+    check('Regulating into 1 kΩ', 0, regulating.clamped ? 1 : 0, 0),
+    check('Voltage into 10 kΩ (V)', 12, highLoad.voltage, 1e-6),
+    check('Current into 10 kΩ (A)', 12 / (10000 + 0.01), highLoad.current, 1e-6),
+    check('Clamped into 10 kΩ', 1, highLoad.clamped ? 1 : 0, 0),
+    check('Voltage open (V)', 12, open.voltage, 1e-6),
+    check('Clamped open', 1, open.clamped ? 1 : 0, 0),
+    check('Current restored (A)', 0.01, source.getCurrent(), 1e-6),
+    check('Regulating restored', 0, source.isInCompliance() ? 1 : 0, 0)
+  ]);
+}
+
+// A current source sinks a steady 10 mA from a 9 V alkaline pack cut down to
+// 0.1 mAh, which has to last exactly 0.1 mAh / 10 mA = 36 s. Then half-charged
+// packs under 0.5 A against the tables: six alkaline cells at 1.27 V behind
+// 6 × 0.25 Ω grown by 1 + 4·0.5², one Li-ion cell at 3.74 V behind
+// 0.05 Ω grown by 1 + 0.5²
+function batteryDischarge(): ReferenceResult {
+  const build = (voltage: number, chemistry: BatteryChemistry, load: number) => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    const battery = circuit.add(new Battery(origin, voltage, chemistry));
+    const sink = circuit.add(new CurrentSource(origin, load));
+
+    circuit.connect(battery, 1, sink, 0);
+    circuit.connect(sink, 1, battery, 0);
+    const terminalVoltage = () => circuit.getTerminalVoltage(battery, 1) - circuit.getTerminalVoltage(battery, 0);
+    return { circuit, battery, terminalVoltage };
+  };
+
+  const drained = build(9, BatteryChemistry.ALKALINE, 0.01);
+  drained.battery.setCapacity(0.1);
+  const runtime = timeUntil(drained.circuit, () => drained.battery.getStateOfCharge() <= 0, 60);
+
+  const alkaline = build(9, BatteryChemistry.ALKALINE, 0.5);
+  alkaline.battery.setStateOfCharge(0.5);
+  alkaline.circuit.step(0.001);
+
+  const lithium = build(3.7, BatteryChemistry.LI_ION, 0.5);
+  lithium.battery.setStateOfCharge(0.5);
+  lithium.circuit.step(0.001);
+
+  return result('Battery discharge', [
+    check('Runtime at 10 mA (s)', (0.1 * 3.6) / 0.01, runtime, 0.001),
+    check('Alkaline at 50%, 0.5 A (V)', 6 * 1.27 - 0.5 * 6 * 0.25 * (1 + 4 * 0.25), alkaline.terminalVoltage(), 0.001),
+    check('Li-ion at 50%, 0.5 A (V)', 3.74 - 0.5 * 0.05 * (1 + 0.25), lithium.terminalVoltage(), 0.001)
+  ]);
+}
+
+// 9 V motor from rest; torque balances viscous friction at the final speed
+function motorSpinUp(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const motor = circuit.add(new Motor(origin));
+
+  circuit.connect(battery, 1, motor, 0);
+  circuit.connect(motor, 1, battery, 0);
+
+  // J·dω/dt = kt·I - b·ω with I = (V - kt·ω) / R, kt in SI units
+  const resistance = motor.getResistance() + BATTERY_RESISTANCE;
+  const ke = motor.getBackEmfConstant();
+  const kt = motor.getTorqueConstant();
+  const damping = motor.getViscousFriction() + (kt * kt) / resistance;
+  const finalRpm = ((kt * 9) / resistance / damping) * (60 / (2 * Math.PI));
+  const tau = motor.getInertia() / damping;
+
+  circuit.step(tau);
+  const rpmAtTau = motor.getRPM();
+  circuit.step(10 * tau);
+
+  return result('Motor spin-up', [
+    check('Speed at t = τ (RPM)', finalRpm * (1 - Math.exp(-1)), rpmAtTau, 0.02),
+    check('Final speed (RPM)', finalRpm, motor.getRPM(), 0.005),
+    check('Running current (A)', (9 - ke * finalRpm) / resistance, motor.getCurrent(), 0.02)
+  ]);
+}
+
+// The same motor on 9 V three ways: a load torque beyond the stall torque
+// holds it still, drawing V/R; a lighter load settles where kt·I = b·ω + TL;
+// and driving a second, coupled motor into 1 MΩ makes it a generator whose
+// terminal voltage is its back-EMF, ke·RPM
+function motorLoads(): ReferenceResult {
+  const origin = Vector2.zero();
+  const build = (loadTorque: number) => {
+    const circuit = new HeadlessCircuit();
+    const battery = circuit.add(new Battery(origin, 9));
+    const motor = circuit.add(new Motor(origin));
+    motor.setLoadTorque(loadTorque);
+
+    circuit.connect(battery, 1, motor, 0);
+    circuit.connect(motor, 1, battery, 0);
+    return { circuit, motor };
+  };
+
+  const stalled = build(1);
+  const resistance = stalled.motor.getResistance() + BATTERY_RESISTANCE;
+  const kt = stalled.motor.getTorqueConstant();
+  stalled.circuit.step(0.05);
+
+  const loadTorque = 0.05;
+  const loaded = build(loadTorque);
+  const loadedSpeed = (kt * 9 / resistance - loadTorque) / (loaded.motor.getViscousFriction() + kt * kt / resistance);
+  loaded.circuit.step(3);
+
+  const driven = build(0);
+  const generator = driven.circuit.add(new Motor(origin));
+  const load = driven.circuit.add(new Resistor(origin, 1e6));
+  driven.circuit.connect(generator, 0, load, 0);
+  driven.circuit.connect(load, 1, generator, 1);
+  driven.motor.coupleTo(generator);
+  driven.circuit.step(5);
+
+  return result('Motor loads', [
+    check('Stalled', 1, stalled.motor.isStalled() ? 1 : 0, 0),
+    check('Stall current (A)', 9 / resistance, stalled.motor.getCurrent(), 1e-6),
+    check('Loaded speed (RPM)', loadedSpeed * (60 / (2 * Math.PI)), loaded.motor.getRPM(), 0.001),
+    check('Loaded current (A)', (9 - kt * loadedSpeed) / resistance, loaded.motor.getCurrent(), 0.001),
+    check('Generator voltage (V)', generator.getBackEmfConstant() * generator.getRPM(), generator.getVoltage(), 0.001)
+  ]);
+}
+
+// A 10 mA fuse (1e-4 A²s) and a 5 mA breaker (3·Ir² A²s thermal, 5× magnetic),
+// each in series with a resistor across 9 V. Both integrate the excess I²
+// over the rating, so the trip time is the integral over I² - Ir²
+function fuseAndBreaker(): ReferenceResult {
+  const origin = Vector2.zero();
+  const build = (protection: Fuse | CircuitBreaker, load: number) => {
+    const circuit = new HeadlessCircuit();
+    const battery = circuit.add(new Battery(origin, 9));
+    const resistor = circuit.add(new Resistor(origin, load));
+    circuit.add(protection);
+
+    circuit.connect(battery, 1, protection, 0);
+    circuit.connect(protection, 1, resistor, 0);
+    circuit.connect(resistor, 1, battery, 0);
+    return circuit;
+  };
+
+  // Twice the rating
+  const fuse = new Fuse(origin, 0.01, 1e-4);
+  const fused = build(fuse, 450);
+  fused.step(0.001);
+  const fuseCurrent = fuse.getCurrent();
+  const blowTime = 0.001 + timeUntil(fused, () => fuse.isBlown(), 1);
+  fused.step(0.001);
+
+  // Six times the rating
+  const fastBreaker = new CircuitBreaker(origin, 0.005);
+  const shorted = build(fastBreaker, 300);
+  shorted.step(0.001);
+
+  // Twice the rating
+  const slowBreaker = new CircuitBreaker(origin, 0.005);
+  const overloaded = build(slowBreaker, 900);
+  overloaded.step(0.001);
+  const breakerCurrent = slowBreaker.getCurrent();
+  const tripTime = 0.001 + timeUntil(overloaded, () => slowBreaker.isTripped(), 3);
+
+  // Just under the rating
+  const idleBreaker = new CircuitBreaker(origin, 0.005);
+  const loaded = build(idleBreaker, 2000);
+  loaded.step(5);
+
+  return result('Fuse and breaker', [
+    check('Fuse blow time at 2× (s)', 1e-4 / (fuseCurrent * fuseCurrent - 0.01 * 0.01), blowTime, 0.01),
+    check('Fuse open once blown', 1, Math.abs(fuse.getCurrent()) < 1e-6 ? 1 : 0, 0),
+    check('Magnetic trip at 6× in one step', 1, fastBreaker.isTripped() ? 1 : 0, 0),
+    check('Thermal trip time at 2× (s)', (3 * 0.005 * 0.005) / (breakerCurrent * breakerCurrent - 0.005 * 0.005), tripTime, 0.01),
+    check('No trip below rating', 0, idleBreaker.isTripped() ? 1 : 0, 0)
+  ]);
+}
+
+// 9 V relay switched on and off, its coil slowed a thousandfold (τ ≈ 4 s) so
+// the 1 ms steps resolve it, with 220 Ω across the coil to carry the current
+// on after the switch opens. The coil current rises as 1 - e^(-t/τ) to its
+// 75% pull-in and decays through the 220 Ω to its 10% drop-out; the armature
+// then takes the operate or release time, breaking one contact before making
+// the other
+function relaySwitching(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const contact = circuit.add(new Switch(origin, false));
+  const relay = circuit.add(new Relay(origin, 9));
+  const flyback = circuit.add(new Resistor(origin, 220));
+  relay.setCoilInductance(relay.getCoilInductance() * 1000);
+
+  circuit.connect(battery, 1, contact, 0);
+  circuit.connect(contact, 1, relay, COIL_A);
+  circuit.connect(relay, COIL_B, battery, 0);
+  circuit.connect(flyback, 0, relay, COIL_A);
+  circuit.connect(flyback, 1, relay, COIL_B);
+
+  // Count the steps with both contacts closed, and with both open
+  let overlaps = 0;
+  let gaps = 0;
+  const watch = () => {
+    const open = relay.isNormallyOpenClosed();
+    const closed = relay.isNormallyClosedClosed();
+    if (open && closed) overlaps++;
+    if (!open && !closed) gaps++;
+    return false;
+  };
+
+  const pullIn = timeUntil(circuit, () => watch() || relay.isEnergized(), 10);
+  const operate = timeUntil(circuit, () => watch() || relay.isNormallyOpenClosed(), 1);
+  circuit.step(10);
+  const heldCurrent = relay.getCoilCurrent();
+  contact.setOpen(true);
+  const dropOut = timeUntil(circuit, () => watch() || !relay.isEnergized(), 10);
+  const release = timeUntil(circuit, () => watch() || relay.isNormallyClosedClosed(), 1);
+
+  // The coil charges from the battery and the 220 Ω as a Thévenin source
+  const inductance = relay.getCoilInductance();
+  const sourceResistance = 1 / (1 / BATTERY_RESISTANCE + 1 / 220);
+  const resistance = sourceResistance + relay.getCoilResistance();
+  const finalCurrent = (9 * 220) / (220 + BATTERY_RESISTANCE) / resistance;
+  const pullInDelay = -(inductance / resistance) * Math.log(1 - relay.getPullInCurrent() / finalCurrent);
+  const decay = inductance / (relay.getCoilResistance() + 220);
+
+  // Armature travel is only resolved to the 1 ms step
+  return result('Relay switching', [
+    check('Pull-in delay (s)', pullInDelay, pullIn, 0.005),
+    check('Normally open makes after (s)', relay.getOperateTime(), operate, 0.1),
+    check('Drop-out delay (s)', decay * Math.log(heldCurrent / relay.getDropOutCurrent()), dropOut, 0.005),
+    check('Normally closed makes after (s)', relay.getReleaseTime(), release, 0.2),
+    check('Steps with both contacts closed', 0, overlaps, 0),
+    check('Both open while travelling', 1, gaps > 0 ? 1 : 0, 0)
+  ]);
+}
+
+// A DPDT wired crosswise between 9 V and a motor: throw A puts + on the
+// motor's first terminal, throw B on its second. It settles at the spin-up
+// speed with both contacts in series, then at the same speed backwards
+function motorReversing(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const battery = circuit.add(new Battery(origin, 9));
+  const changeover = circuit.add(new DoubleThrowSwitch(origin, 2));
+  const motor = circuit.add(new Motor(origin));
+
+  circuit.connect(battery, 1, changeover, poleTerminal(0, COMMON));
+  circuit.connect(battery, 0, changeover, poleTerminal(1, COMMON));
+  circuit.connect(changeover, poleTerminal(0, THROW_A), motor, 0);
+  circuit.connect(changeover, poleTerminal(1, THROW_A), motor, 1);
+  circuit.connect(changeover, poleTerminal(0, THROW_B), motor, 1);
+  circuit.connect(changeover, poleTerminal(1, THROW_B), motor, 0);
+
+  const resistance = motor.getResistance() + BATTERY_RESISTANCE + 2 * changeover.getResistance();
+  const kt = motor.getTorqueConstant();
+  const finalRpm = ((kt * 9) / resistance / (motor.getViscousFriction() + (kt * kt) / resistance)) * (60 / (2 * Math.PI));
+
+  circuit.step(3);
+  const forward = { rpm: motor.getRPM(), voltage: motor.getVoltage() };
+  changeover.toggle();
+  circuit.step(3);
+
+  return result('Motor reversing', [
+    check('Speed on throw A (RPM)', finalRpm, forward.rpm, 0.001),
+    check('Speed on throw B (RPM)', -finalRpm, motor.getRPM(), 0.001),
+    check('Voltage reversed (V)', -forward.voltage, motor.getVoltage(), 0.001)
+  ]);
+}
+
+// Normally-open and normally-closed buttons each feeding 1 kΩ from 9 V:
+// the NO one conducts only while held, the NC one only when let go
+function pushButtons(): ReferenceResult {
+  const origin = Vector2.zero();
+  const build = (normallyOpen: boolean) => {
+    const circuit = new HeadlessCircuit();
+    const battery = circuit.add(new Battery(origin, 9));
+    const button = circuit.add(new PushButton(origin, normallyOpen));
+    const load = circuit.add(new Resistor(origin, 1000));
+
+    circuit.connect(battery, 1, button, 0);
+    circuit.connect(button, 1, load, 0);
+    circuit.connect(load, 1, battery, 0);
+
+    // Load current before, while and after holding the button
+    const currents: number[] = [];
+    circuit.step(0.01);
+    currents.push(load.getCurrent());
+    button.press();
+    circuit.step(0.01);
+    currents.push(load.getCurrent());
+    button.release();
+    circuit.step(0.01);
+    currents.push(load.getCurrent());
+    return currents;
+  };
+
+  const closed = 9 / (1000 + 0.01 + BATTERY_RESISTANCE);
+  const open = (current: number) => (Math.abs(current) < 1e-6 ? 1 : 0);
+  const [noBefore, noHeld, noAfter] = build(true);
+  const [ncBefore, ncHeld, ncAfter] = build(false);
+
+  return result('Push buttons', [
+    check('NO open before press', 1, open(noBefore), 0),
+    check('NO current while held (A)', closed, noHeld, 1e-6),
+    check('NO open after release', 1, open(noAfter), 0),
+    check('NC current before press (A)', closed, ncBefore, 1e-6),
+    check('NC open while held', 1, open(ncHeld), 0),
+    check('NC current after release (A)', closed, ncAfter, 1e-6)
+  ]);
+}
+
+// NPN (β = 100) with 1 kΩ on the collector from 9 V; 470 kΩ of base bias keeps
+// it active, 10 kΩ overdrives the base and saturates it
+function commonEmitter(): ReferenceResult {
+  const build = (baseResistance: number) => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    const battery = circuit.add(new Battery(origin, 9));
+    const baseResistor = circuit.add(new Resistor(origin, baseResistance));
+    const collectorResistor = circuit.add(new Resistor(origin, 1000));
+    const transistor = circuit.add(new BJT(origin));
+
+    circuit.connect(battery, 1, baseResistor, 0);
+    circuit.connect(baseResistor, 1, transistor, BASE);
+    circuit.connect(battery, 1, collectorResistor, 0);
+    circuit.connect(collectorResistor, 1, transistor, COLLECTOR);
+    circuit.connect(transistor, EMITTER, battery, 0);
+
+    circuit.step(0.01);
+    return transistor;
+  };
+
+  const active = build(470000);
+  const saturated = build(10000);
+
+  // Ebers-Moll with the base forcing a gain βf < βF:
+  // Vce(sat) = Vt·ln[(1 + (βf + 1)/βR) / (1 - βf/βF)]
+  const forcedBeta = saturated.getCollectorCurrent() / saturated.getBaseCurrent();
+  const saturationVoltage =
+    THERMAL_VOLTAGE *
+    Math.log((1 + (forcedBeta + 1) / saturated.getReverseBeta()) / (1 - forcedBeta / saturated.getBeta()));
+
+  return result('Common-emitter BJT', [
+    check('Active with 470 kΩ base bias', 1, active.getRegion() === BJTRegion.ACTIVE ? 1 : 0, 0),
+    check('Active current gain Ic/Ib', active.getBeta(), active.getCollectorCurrent() / active.getBaseCurrent(), 0.001),
+    check('Saturated with 10 kΩ base bias', 1, saturated.getRegion() === BJTRegion.SATURATION ? 1 : 0, 0),
+    check('Saturation voltage Vce (V)', saturationVoltage, saturated.getVoltage(), 0.001)
+  ]);
+}
+
+// An N-channel MOSFET (Vt = 2 V) with its drain through 1 kΩ to 9 V. Driven
+// at the rated 4.5 V it is a resistor of R_ds(on). With k = 8 mA/V² and 3 V
+// on the gate it saturates at ½k(Vgs - Vt)²(1 + λVds), λ = 0.01/V; with
+// Vds = 9 - I·R that is I = ½k(Vgs - Vt)²(1 + 9λ) / (1 + ½k(Vgs - Vt)²·λR).
+// A 100 µF gate charged through 1 kΩ follows 1 - e^(-t/RC) under the
+// trapezoidal rule, like any capacitor
+function mosfetSwitch(): ReferenceResult {
+  const origin = Vector2.zero();
+  const build = (mosfet: MOSFET, gateVoltage: number) => {
+    const circuit = new HeadlessCircuit();
+    const supply = circuit.add(new Battery(origin, 9));
+    const drive = circuit.add(new Battery(origin, gateVoltage));
+    const load = circuit.add(new Resistor(origin, 1000));
+    const gate = circuit.add(new Resistor(origin, 1000));
+    circuit.add(mosfet);
+
+    circuit.connect(supply, 1, load, 0);
+    circuit.connect(load, 1, mosfet, DRAIN);
+    circuit.connect(drive, 1, gate, 0);
+    circuit.connect(gate, 1, mosfet, GATE);
+    circuit.connect(mosfet, SOURCE, supply, 0);
+    circuit.connect(drive, 0, supply, 0);
+    return { circuit, load };
+  };
+
+  const switched = new MOSFET(origin);
+  const on = build(switched, 4.5);
+  on.circuit.step(0.01);
+  const onCurrent = on.load.getVoltage() / 1000;
+
+  const amplifier = new MOSFET(origin);
+  amplifier.setTransconductance(0.008);
+  const saturated = build(amplifier, 3);
+  saturated.circuit.step(0.01);
+  const lambda = 0.01;
+  const square = 0.5 * 0.008 * (3 - 2) ** 2;
+  const saturationCurrent = square * (1 + 9 * lambda) / (1 + square * lambda * (1000 + BATTERY_RESISTANCE));
+
+  const gated = new MOSFET(origin);
+  gated.setGateCapacitance(1e-4);
+  const charging = build(gated, 9);
+  charging.circuit.setIntegrationMethod(IntegrationMethod.TRAPEZOIDAL);
+  charging.circuit.step(1000 * 1e-4);
+
+  return result('MOSFET switch', [
+    check('On-resistance at 4.5 V (Ω)', switched.getOnResistance(), switched.getVoltage() / onCurrent, 0.002),
+    check('Saturation current at Vgs = 3 V (A)', saturationCurrent, saturated.load.getVoltage() / 1000, 0.001),
+    check('Gate voltage at t = RC (V)', 9 * (1 - Math.exp(-1)), gated.getGateVoltage(), 0.001)
+  ]);
+}
+
+// Op-amp on ±12 V with 10 kΩ in and 47 kΩ feedback; 1 V in stays linear, 3 V
+// in asks for -14.1 V and pins the output one headroom above the negative rail
+function invertingAmplifier(): ReferenceResult {
+  const build = (input: number) => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    const ground = circuit.add(new Ground(origin));
+    const positive = circuit.add(new Battery(origin, 12));
+    const negative = circuit.add(new Battery(origin, 12));
+    const source = circuit.add(new Battery(origin, input));
+    const inputResistor = circuit.add(new Resistor(origin, 10000));
+    const feedback = circuit.add(new Resistor(origin, 47000));
+    const opAmp = circuit.add(new OpAmp(origin));
+
+    circuit.connect(positive, 0, ground, 0);
+    circuit.connect(positive, 1, opAmp, SUPPLY_POSITIVE);
+    circuit.connect(negative, 1, ground, 0);
+    circuit.connect(negative, 0, opAmp, SUPPLY_NEGATIVE);
+    circuit.connect(source, 0, ground, 0);
+    circuit.connect(source, 1, inputResistor, 0);
+    circuit.connect(inputResistor, 1, opAmp, INVERTING);
+    circuit.connect(feedback, 0, opAmp, INVERTING);
+    circuit.connect(feedback, 1, opAmp, OUTPUT);
+    circuit.connect(opAmp, NON_INVERTING, ground, 0);
+
+    circuit.step(0.01);
+    return { opAmp, output: circuit.getTerminalVoltage(opAmp, OUTPUT) };
+  };
+
+  // Closed-loop gain with finite open-loop gain A: -(Rf/Rin) / (1 + (1 + Rf/Rin) / A)
+  const linear = build(1);
+  const ratio = 47000 / 10000;
+  const gain = -ratio / (1 + (1 + ratio) / linear.opAmp.getOpenLoopGain());
+  const saturated = build(3);
+
+  return result('Inverting amplifier', [
+    check('Output at 1 V in (V)', gain, linear.output, 0.001),
+    check('Linear at 1 V in', 0, linear.opAmp.isSaturated() ? 1 : 0, 0),
+    check('Output at 3 V in (V)', -12 + saturated.opAmp.getRailHeadroom(), saturated.output, 0.001),
+    check('Saturated at 3 V in', 1, saturated.opAmp.isSaturated() ? 1 : 0, 0)
+  ]);
+}
+
+// 2:1 step-up transformer with 1 MΩ on the secondary: 5 V, 50 Hz in gives
+// k·n times that out; on 9 V DC the core saturates and the secondary dies
+function transformerRatio(): ReferenceResult {
+  const build = (source: Battery | FunctionGenerator) => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    circuit.add(source);
+    const transformer = circuit.add(new Transformer(origin, 2));
+    const load = circuit.add(new Resistor(origin, 1e6));
+
+    circuit.connect(source, 1, transformer, PRIMARY_DOT);
+    circuit.connect(transformer, PRIMARY, source, 0);
+    circuit.connect(transformer, SECONDARY_DOT, load, 0);
+    circuit.connect(load, 1, transformer, SECONDARY);
+    return { circuit, transformer };
+  };
+
+  // RMS over two whole cycles once the magnetizing current has settled
+  const ac = build(new FunctionGenerator(Vector2.zero(), Waveform.SINE, 5, 50));
+  ac.circuit.step(0.2);
+  let primarySquares = 0;
+  let secondarySquares = 0;
+  for (let i = 0; i < 40; i++) {
+    ac.circuit.step(0.001);
+    primarySquares += ac.transformer.getVoltage() ** 2;
+    secondarySquares += ac.transformer.getSecondaryVoltage() ** 2;
+  }
+  const ratio = ac.transformer.getCouplingCoefficient() * ac.transformer.getTurnsRatio();
+
+  // Only the winding resistance limits the DC primary current
+  const dc = build(new Battery(Vector2.zero(), 9));
+  dc.circuit.step(3);
+  const current = 9 / (dc.transformer.getPrimaryResistance() + BATTERY_RESISTANCE);
+
+  return result('Transformer', [
+    check('AC voltage ratio', ratio, Math.sqrt(secondarySquares / primarySquares), 0.005),
+    check('DC primary current (A)', current, dc.transformer.getCurrent(), 0.001),
+    check('No secondary voltage on DC', 1, Math.abs(dc.transformer.getSecondaryVoltage()) < 1e-3 ? 1 : 0, 0)
+  ]);
+}
+
+// 5 V, 2 Hz from the generator's 50 Ω into 10 kΩ, sampled every step over
+// one whole cycle: RMS is A/√2 for the sine, A for the square and A/√3 for
+// the triangle and sawtooth, all peaking at A; 25% PWM is high a quarter of
+// the time. The frequency stops at MAX_FREQUENCY however it is set
+function generatorWaveforms(): ReferenceResult {
+  const origin = Vector2.zero();
+  const sample = (waveform: Waveform) => {
+    const circuit = new HeadlessCircuit();
+    const generator = circuit.add(new FunctionGenerator(origin, waveform, 5, 2));
+    const load = circuit.add(new Resistor(origin, 10000));
+    generator.setDutyCycle(0.25);
+
+    circuit.connect(generator, 1, load, 0);
+    circuit.connect(load, 1, generator, 0);
+
+    let squares = 0;
+    let peak = 0;
+    let high = 0;
+    for (let i = 0; i < 500; i++) {
+      circuit.step(0.001);
+      const voltage = load.getVoltage();
+      squares += voltage * voltage;
+      peak = Math.max(peak, Math.abs(voltage));
+      if (voltage > 2.5) high++;
+    }
+    return { rms: Math.sqrt(squares / 500), peak, duty: high / 500 };
+  };
+
+  const amplitude = (5 * 10000) / (10000 + 50);
+  const sine = sample(Waveform.SINE);
+  const square = sample(Waveform.SQUARE);
+  const triangle = sample(Waveform.TRIANGLE);
+  const sawtooth = sample(Waveform.SAWTOOTH);
+  const pwm = sample(Waveform.PWM);
+
+  const clamped = new FunctionGenerator(origin, Waveform.SINE, 5, 1000);
+  const raised = new FunctionGenerator(origin);
+  raised.setFrequency(1000);
+
+  return result('Function generator', [
+    check('Sine RMS (V)', amplitude / Math.SQRT2, sine.rms, 0.001),
+    check('Sine peak (V)', amplitude, sine.peak, 0.001),
+    check('Square RMS (V)', amplitude, square.rms, 0.001),
+    check('Square peak (V)', amplitude, square.peak, 0.001),
+    check('Triangle RMS (V)', amplitude / Math.sqrt(3), triangle.rms, 0.001),
+    check('Triangle peak (V)', amplitude, triangle.peak, 0.001),
+    check('Sawtooth RMS (V)', amplitude / Math.sqrt(3), sawtooth.rms, 0.001),
+    check('Sawtooth peak (V)', amplitude, sawtooth.peak, 0.001),
+    check('PWM duty cycle', 0.25, pwm.duty, 0.01),
+    check('PWM RMS (V)', amplitude * Math.sqrt(0.25), pwm.rms, 0.005),
+    check('Frequency from constructor (Hz)', MAX_FREQUENCY, clamped.getFrequency(), 0),
+    check('Frequency from setFrequency (Hz)', MAX_FREQUENCY, raised.getFrequency(), 0)
+  ]);
+}
+
+// 1 V, 100 Hz sine into an 8 Ω speaker through the generator's 50 Ω,
+// recorded at 8 kHz once the cone's DC-blocking filter has settled
+function speakerTone(): ReferenceResult {
+  const circuit = new HeadlessCircuit();
+  const origin = Vector2.zero();
+  const generator = circuit.add(new FunctionGenerator(origin, Waveform.SINE, 1, 100));
+  const speaker = circuit.add(new Speaker(origin));
+
+  circuit.connect(generator, 0, speaker, 0);
+  circuit.connect(speaker, 1, generator, 1);
+
+  circuit.step(0.3);
+  const duration = 0.5;
+  const samples = circuit.renderAudio(duration, 8000);
+
+  let crossings = 0;
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    if (i > 0 && samples[i - 1] < 0 && samples[i] >= 0) crossings++;
+    sumSquares += samples[i] * samples[i];
+  }
+
+  // Sound pressure follows the current as a fraction of full scale; stretching
+  // ten timesteps per cycle to 80 samples shaves a few percent off the RMS
+  const peak = 1 / (generator.getResistance() + 8) / speaker.getFullScaleCurrent();
+
+  return result('Speaker tone', [
+    check('Tone frequency (Hz)', 100, crossings / duration, 0.02),
+    check('RMS sound level', peak / Math.SQRT2, Math.sqrt(sumSquares / samples.length), 0.05)
+  ]);
+}
+
+// Switching transistor hard on through a charging 1000 µF base capacitor: at
+// DC the capacitor blocks and the base junction relaxes. A DC solve and an AC
+// sweep between two steps have to leave the second step exactly as it would
+// have been
+function analysesMidTransient(): ReferenceResult {
+  const build = () => {
+    const circuit = new HeadlessCircuit();
+    const origin = Vector2.zero();
+    const battery = circuit.add(new Battery(origin, 9));
+    const baseResistor = circuit.add(new Resistor(origin, 1000));
+    const coupling = circuit.add(new Capacitor(origin, 1000e-6));
+    const collectorResistor = circuit.add(new Resistor(origin, 1000));
+    const transistor = circuit.add(new BJT(origin));
+
+    circuit.connect(battery, 1, baseResistor, 0);
+    circuit.connect(baseResistor, 1, coupling, 0);
+    circuit.connect(coupling, 1, transistor, BASE);
+    circuit.connect(battery, 1, collectorResistor, 0);
+    circuit.connect(collectorResistor, 1, transistor, COLLECTOR);
+    circuit.connect(transistor, EMITTER, battery, 0);
+    return { circuit, transistor, coupling };
+  };
+
+  const undisturbed = build();
+  undisturbed.circuit.step(0.101);
+
+  const probed = build();
+  probed.circuit.step(0.1);
+  const operatingPoint = probed.circuit.computeOperatingPoint();
+  const sweep = probed.circuit.runACSweep(
+    probed.circuit.getNet(probed.coupling, 0)!,
+    probed.circuit.getNet(probed.transistor, COLLECTOR)!
+  );
+  probed.circuit.step(0.001);
+
+  return result('Analyses mid-transient', [
+    check('Operating point converged', 1, operatingPoint.converged ? 1 : 0, 0),
+    check('AC sweep solved', 1, sweep.points.length > 0 ? 1 : 0, 0),
+    check('Base current after (A)', undisturbed.transistor.getBaseCurrent(), probed.transistor.getBaseCurrent(), 0),
+    check('Capacitor charge after (C)', undisturbed.coupling.getCharge(), probed.coupling.getCharge(), 0)
+  ]);
+}
+
+// One broken circuit per diagnostic, each of which must be reported and must
+// name the parts responsible
+function circuitDiagnostics(): ReferenceResult {
+  const origin = Vector2.zero();
+  const reports = (circuit: HeadlessCircuit, kind: DiagnosticKind, parts: Component[]) =>
+    circuit.getDiagnostics().some(d => d.kind === kind && parts.every(part => d.components.includes(part)));
+
+  // A grounded battery loop, and a second one beside it with no ground
+  const islands = new HeadlessCircuit();
+  const ground = islands.add(new Ground(origin));
+  const grounded = islands.add(new Battery(origin, 9));
+  const groundedLoad = islands.add(new Resistor(origin, 1000));
+  const floating = islands.add(new Battery(origin, 3));
+  const floatingLoad = islands.add(new Resistor(origin, 1000));
+  islands.connect(grounded, 0, ground, 0);
+  islands.connect(grounded, 1, groundedLoad, 0);
+  islands.connect(groundedLoad, 1, grounded, 0);
+  islands.connect(floating, 1, floatingLoad, 0);
+  islands.connect(floatingLoad, 1, floating, 0);
+  islands.step(0.01);
+  const floatingReports = islands.getDiagnostics().filter(d => d.kind === DiagnosticKind.FLOATING_SUBCIRCUIT);
+
+  // Two voltage-controlled voltage sources (gains 2 and 3) driving the same net
+  const parallel = new HeadlessCircuit();
+  const common = parallel.add(new Ground(origin));
+  const control = parallel.add(new Battery(origin, 1));
+  const load = parallel.add(new Resistor(origin, 1000));
+  const sources = [2, 3].map(gain => parallel.add(new ControlledSource(origin, ControlledSourceKind.VCVS, gain)));
+  parallel.connect(control, 0, common, 0);
+  parallel.connect(load, 1, common, 0);
+  for (const source of sources) {
+    parallel.connect(source, CONTROL_POSITIVE, control, 1);
+    parallel.connect(source, CONTROL_NEGATIVE, common, 0);
+    parallel.connect(source, OUTPUT_POSITIVE, load, 0);
+    parallel.connect(source, OUTPUT_NEGATIVE, common, 0);
+  }
+  parallel.step(0.01);
+
+  // An ideal current source pushing into a resistor that leads nowhere
+  const cutset = new HeadlessCircuit();
+  const reference = cutset.add(new Ground(origin));
+  const pump = cutset.add(new CurrentSource(origin, 0.01, Infinity));
+  const deadEnd = cutset.add(new Resistor(origin, 1000));
+  cutset.connect(pump, 0, reference, 0);
+  cutset.connect(pump, 1, deadEnd, 0);
+  cutset.step(0.01);
+
+  // A 1 MH coil across a 0.1 Ω shunt: the coil's companion is 10^9 Ω per step
+  const mismatched = new HeadlessCircuit();
+  const supply = mismatched.add(new Battery(origin, 9));
+  const coil = mismatched.add(new Inductor(origin, 1e6));
+  const shunt = mismatched.add(new Resistor(origin, 0.1));
+  mismatched.connect(supply, 1, coil, 0);
+  mismatched.connect(coil, 1, supply, 0);
+  mismatched.connect(supply, 1, shunt, 0);
+  mismatched.connect(shunt, 1, supply, 0);
+  mismatched.step(0.01);
+
+  return result('Circuit diagnostics', [
+    check('One floating subcircuit', 1, floatingReports.length, 0),
+    check('Floating loop named', 1, reports(islands, DiagnosticKind.FLOATING_SUBCIRCUIT, [floating, floatingLoad]) ? 1 : 0, 0),
+    check('Grounded loop not named', 0, floatingReports.some(d => d.components.includes(grounded)) ? 1 : 0, 0),
+    check('Voltage-source loop', 1, reports(parallel, DiagnosticKind.VOLTAGE_SOURCE_LOOP, sources) ? 1 : 0, 0),
+    check('Singular matrix', 1, reports(parallel, DiagnosticKind.SINGULAR_MATRIX, []) ? 1 : 0, 0),
+    check('Current-source cutset', 1, reports(cutset, DiagnosticKind.CURRENT_SOURCE_CUTSET, [pump, deadEnd]) ? 1 : 0, 0),
+    check('Ill-conditioned', 1, reports(mismatched, DiagnosticKind.ILL_CONDITIONED, []) ? 1 : 0, 0)
+  ]);
+}
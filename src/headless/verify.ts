@@ -0,0 +1,21 @@
+/**
+ * Reference circuit runner for Node - `npm run verify`
+ */
+
+import { runReferenceCircuits } from './ReferenceCircuits';
+
+const results = runReferenceCircuits();
+
+for (const result of results) {
+  console.log(`${result.passed ? '✅' : '❌'} ${result.circuit}`);
+  for (const check of result.checks) {
+    console.log(
+      `   ${check.passed ? '✓' : '✗'} ${check.name}: expected ${check.expected.toPrecision(6)}, ` +
+      `got ${check.actual.toPrecision(6)} (±${Number((check.tolerance * 100).toPrecision(2))}%)`
+    );
+  }
+}
+
+const failed = results.filter(r => !r.passed).length;
+console.log(failed === 0 ? 'All reference circuits passed' : `${failed} reference circuit(s) failed`);
+process.exitCode = failed === 0 ? 0 : 1;
@@ -3,16 +3,24 @@
  */
 
 import { CircuitSimulator } from '../core/CircuitSimulator';
-import { Component } from '../core/Component';
+import { Component, Terminal, Momentary, isMomentary, isToggleable } from '../core/Component';
 import { Wire } from '../core/Wire';
 import { Vector2 } from '../math/Vector2';
+import { Potentiometer } from '../components/Potentiometer';
+import { FunctionGenerator } from '../components/FunctionGenerator';
+import { Fuse } from '../components/Fuse';
+import { PushButton } from '../components/PushButton';
+import { Motor } from '../components/Motor';
 import { RenderEngine } from '../rendering/RenderEngine';
+import { ACSweep } from '../physics/AnalysisResults';
 
 export enum InteractionMode {
   SELECT = 'select',
   PLACE_COMPONENT = 'place',
   WIRE = 'wire',
-  DELETE = 'delete'
+  DELETE = 'delete',
+  PROBE = 'probe', // Pick input then output terminal for a Bode plot
+  COUPLE = 'couple' // Pick two motors to join (or part) their shafts
 }
 
 export class InputManager {
@@ -29,6 +37,18 @@ export class InputManager {
   private wireStartComponent: Component | null = null;
   private wireStartTerminal: number = 0;
   private dragOffset: Vector2 = Vector2.zero();
+  private wiperDrag: Potentiometer | null = null; // Potentiometer whose wiper follows the mouse
+  private heldButton: PushButton | null = null; // Push button held down by the mouse
+  private rotorDrag: Motor | null = null; // Motor whose rotor is being turned by hand
+  private rotorDragAngle: number = 0; // Mouse angle around that motor at the last move
+
+  // Shaft coupling state
+  private coupleFirst: Motor | null = null;
+
+  // Bode probe state
+  private probeInput: Terminal | null = null;
+  private probeOutput: Terminal | null = null;
+  private acSweep: ACSweep | null = null;
 
   constructor(canvas: HTMLCanvasElement, simulator: CircuitSimulator) {
     this.canvas = canvas;
@@ -40,7 +60,12 @@ export class InputManager {
     this.canvas.addEventListener('mousedown', this.onMouseDown.bind(this));
     this.canvas.addEventListener('mousemove', this.onMouseMove.bind(this));
     this.canvas.addEventListener('mouseup', this.onMouseUp.bind(this));
+    this.canvas.addEventListener('mouseleave', this.releaseHeldButton.bind(this));
+    this.canvas.addEventListener('wheel', this.onWheel.bind(this), { passive: false });
     this.canvas.addEventListener('dblclick', this.onDoubleClick.bind(this));
+    window.addEventListener('keydown', this.onKeyDown.bind(this));
+    window.addEventListener('keyup', this.onKeyUp.bind(this));
+    window.addEventListener('blur', this.onBlur.bind(this));
     this.canvas.addEventListener('contextmenu', (e) => e.preventDefault());
   }
 
@@ -58,7 +83,18 @@ export class InputManager {
     if (this.mode === InteractionMode.SELECT) {
       const component = this.simulator.getComponentAt(this.mousePos);
 
-      if (component) {
+      // Grabbing a potentiometer's knob turns it, and pressing a button's cap
+      // holds it down, instead of moving the part
+      if (component instanceof Potentiometer && Vector2.distance(this.mousePos, component.getWiperHandle()) < 10) {
+        this.wiperDrag = component;
+      } else if (component instanceof PushButton && Vector2.distance(this.mousePos, component.getCapHandle()) < 12) {
+        component.press();
+        this.heldButton = component;
+      } else if (component instanceof Motor && Vector2.distance(this.mousePos, component.getRotorHandle()) < 10) {
+        component.grabRotor();
+        this.rotorDrag = component;
+        this.rotorDragAngle = this.getAngleAround(component, this.mousePos);
+      } else if (component) {
         this.selectedComponent = component;
         this.isDragging = true;
         this.dragOffset = this.mousePos.subtract(component.getPosition());
@@ -68,15 +104,29 @@ export class InputManager {
     } else if (this.mode === InteractionMode.DELETE) {
       const component = this.simulator.getComponentAt(this.mousePos);
       if (component) {
+        if (component instanceof Motor) component.uncouple();
         this.simulator.removeComponent(component);
       }
+    } else if (this.mode === InteractionMode.PROBE) {
+      this.pickProbe(this.mousePos);
+    } else if (this.mode === InteractionMode.COUPLE) {
+      this.pickCouple(this.mousePos);
     }
   }
 
   private onMouseMove(event: MouseEvent): void {
     this.mousePos = this.getMousePosition(event);
 
-    if (this.isDragging && this.selectedComponent) {
+    if (this.wiperDrag) {
+      this.wiperDrag.setWiperFromPoint(this.mousePos);
+    } else if (this.rotorDrag) {
+      // Turn by the change in angle, wrapped so crossing ±π does not spin it a full turn
+      const angle = this.getAngleAround(this.rotorDrag, this.mousePos);
+      let delta = angle - this.rotorDragAngle;
+      delta -= 2 * Math.PI * Math.round(delta / (2 * Math.PI));
+      this.rotorDrag.turnRotorBy(delta);
+      this.rotorDragAngle = angle;
+    } else if (this.isDragging && this.selectedComponent) {
       const newPos = this.mousePos.subtract(this.dragOffset);
       this.selectedComponent.setPosition(newPos);
     }
@@ -90,6 +140,9 @@ export class InputManager {
     }
 
     this.isDragging = false;
+    this.wiperDrag = null;
+    this.releaseHeldButton();
+    this.releaseRotor();
 
     if (this.selectedComponent) {
       // Snap to grid on release
@@ -105,59 +158,108 @@ export class InputManager {
     const component = this.simulator.getComponentAt(this.mousePos);
 
     if (component) {
-      // Toggle switch or open property editor
-      if ((component as any).toggle) {
-        (component as any).toggle();
+      // Toggle a switch or breaker, step a generator's waveform, or replace a blown fuse
+      if (component instanceof FunctionGenerator) {
+        component.cycleWaveform();
+      } else if (component instanceof Fuse) {
+        if (component.isBlown()) component.replace();
+      } else if (isToggleable(component)) {
+        component.toggle();
       }
     }
   }
 
-  private startWire(position: Vector2): void {
-    const component = this.simulator.getComponentAt(position);
+  // Scrolling over a motor adds or removes mechanical load; over a function
+  // generator it sets the frequency, or with Shift the amplitude, with Alt the
+  // offset and with both the PWM duty cycle
+  private onWheel(event: WheelEvent): void {
+    const component = this.simulator.getComponentAt(this.getMousePosition(event));
+    // Some browsers turn Shift+wheel into horizontal scrolling
+    const up = (event.deltaY || event.deltaX) < 0;
+
+    if (component instanceof Motor) {
+      event.preventDefault();
+      const step = up ? 0.01 : -0.01;
+      component.setLoadTorque(Math.min(Math.round((component.getLoadTorque() + step) * 100) / 100, 0.3));
+    } else if (component instanceof FunctionGenerator) {
+      event.preventDefault();
+      const sign = up ? 1 : -1;
+      if (event.shiftKey && event.altKey) {
+        component.setDutyCycle(Math.round((component.getDutyCycle() + sign * 0.05) * 100) / 100);
+      } else if (event.shiftKey) {
+        component.setAmplitude(Math.min(Math.round((component.getAmplitude() + sign * 0.5) * 10) / 10, 20));
+      } else if (event.altKey) {
+        component.setOffset(Math.min(Math.max(Math.round((component.getOffset() + sign * 0.5) * 10) / 10, -10), 10));
+      } else {
+        component.stepFrequency(sign);
+      }
+    }
+  }
 
-    if (component) {
-      this.wireStartComponent = component;
+  // Angle of a canvas point around a component's centre, matching the rotor's
+  // clockwise-from-up convention
+  private getAngleAround(component: Component, point: Vector2): number {
+    const offset = point.subtract(component.getPosition());
+    return Math.atan2(offset.x, -offset.y) - component.getRotation();
+  }
 
-      // Find closest terminal
-      const terminals = component.getTerminals();
-      let closestTerminal = 0;
-      let minDist = Infinity;
+  private releaseRotor(): void {
+    if (this.rotorDrag) {
+      this.rotorDrag.releaseRotor();
+      this.rotorDrag = null;
+    }
+  }
 
-      terminals.forEach((terminal, index) => {
-        const dist = Vector2.distance(position, terminal.position);
-        if (dist < minDist) {
-          minDist = dist;
-          closestTerminal = index;
-        }
-      });
+  private releaseHeldButton(): void {
+    if (this.heldButton) {
+      this.heldButton.release();
+      this.heldButton = null;
+    }
+  }
+
+  // Holding a key holds down every push button bound to it
+  private onKeyDown(event: KeyboardEvent): void {
+    if (event.repeat) return;
+    this.getButtonsForKey(event.key).forEach(button => button.press());
+  }
+
+  private onKeyUp(event: KeyboardEvent): void {
+    this.getButtonsForKey(event.key).forEach(button => button.release());
+  }
+
+  // Keyup and mouseup never arrive once the window loses focus, so let go of everything
+  private onBlur(): void {
+    this.releaseHeldButton();
+    this.simulator
+      .getComponents()
+      .filter(isMomentary)
+      .filter(button => button.isPressed())
+      .forEach(button => button.release());
+  }
+
+  private getButtonsForKey(key: string): Momentary[] {
+    return this.simulator.getComponents().filter(isMomentary).filter(button => button.getKey() === key);
+  }
 
-      this.wireStartTerminal = closestTerminal;
+  private startWire(position: Vector2): void {
+    const picked = this.pickTerminal(position);
+
+    if (picked) {
+      this.wireStartComponent = picked.component;
+      this.wireStartTerminal = picked.terminal;
     }
   }
 
   private endWire(position: Vector2): void {
-    const endComponent = this.simulator.getComponentAt(position);
-
-    if (endComponent && this.wireStartComponent && endComponent !== this.wireStartComponent) {
-      // Find closest terminal on end component
-      const terminals = endComponent.getTerminals();
-      let closestTerminal = 0;
-      let minDist = Infinity;
-
-      terminals.forEach((terminal, index) => {
-        const dist = Vector2.distance(position, terminal.position);
-        if (dist < minDist) {
-          minDist = dist;
-          closestTerminal = index;
-        }
-      });
+    const picked = this.pickTerminal(position);
 
+    if (picked && this.wireStartComponent && picked.component !== this.wireStartComponent) {
       // Create wire
       const wire = new Wire(
         this.wireStartComponent,
         this.wireStartTerminal,
-        endComponent,
-        closestTerminal
+        picked.component,
+        picked.terminal
       );
 
       this.simulator.addWire(wire);
@@ -166,10 +268,85 @@ export class InputManager {
     this.wireStartComponent = null;
   }
 
+  // A terminal under the cursor wins; otherwise the closest terminal of the part clicked
+  private pickTerminal(position: Vector2): { component: Component; terminal: number } | null {
+    const hit = this.simulator.getTerminalAt(position);
+    if (hit) return hit;
+
+    const component = this.simulator.getComponentAt(position);
+    if (!component) return null;
+
+    let closestTerminal = 0;
+    let minDist = Infinity;
+
+    component.getTerminals().forEach((terminal, index) => {
+      const dist = Vector2.distance(position, terminal.position);
+      if (dist < minDist) {
+        minDist = dist;
+        closestTerminal = index;
+      }
+    });
+
+    return { component, terminal: closestTerminal };
+  }
+
+  // First click picks the input net, second the output net, then the sweep runs
+  private pickProbe(position: Vector2): void {
+    const picked = this.pickTerminal(position);
+    const terminal = picked ? picked.component.getTerminal(picked.terminal) : null;
+    if (!terminal) return;
+
+    const net = this.simulator.getNetlist().getNet(terminal);
+    if (!net) return;
+
+    if (!this.probeInput || this.probeOutput) {
+      // The input is driven against ground, so it cannot be the ground net
+      if (net.id === 0) return;
+      this.probeInput = terminal;
+      this.probeOutput = null;
+      this.acSweep = null;
+      return;
+    }
+
+    const input = this.simulator.getNetlist().getNet(this.probeInput);
+    if (!input || input.id === 0) {
+      this.probeInput = null;
+      return;
+    }
+
+    this.probeOutput = terminal;
+    this.acSweep = this.simulator.runACSweep(input, net);
+  }
+
+  // First click picks a motor, second couples it to another, or parts them if already coupled
+  private pickCouple(position: Vector2): void {
+    const component = this.simulator.getComponentAt(position);
+    if (!(component instanceof Motor)) return;
+
+    if (!this.coupleFirst || this.coupleFirst === component) {
+      this.coupleFirst = component;
+      return;
+    }
+
+    if (this.coupleFirst.isCoupledTo(component)) {
+      component.uncouple();
+    } else {
+      this.coupleFirst.coupleTo(component);
+    }
+    this.coupleFirst = null;
+  }
+
   setMode(mode: InteractionMode): void {
     this.mode = mode;
     this.wireStartComponent = null;
     this.selectedComponent = null;
+    this.wiperDrag = null;
+    this.releaseHeldButton();
+    this.releaseRotor();
+    this.coupleFirst = null;
+    this.probeInput = null;
+    this.probeOutput = null;
+    this.acSweep = null;
   }
 
   getMode(): InteractionMode {
@@ -185,7 +362,20 @@ export class InputManager {
     return this.componentToPlace;
   }
 
-  render(_renderEngine: RenderEngine): void {
+  render(renderEngine: RenderEngine): void {
+    if (this.coupleFirst) {
+      renderEngine.renderProbe(this.coupleFirst.getPosition(), 'SHAFT', '#8e44ad');
+    }
+    if (this.probeInput) {
+      renderEngine.renderProbe(this.probeInput.position, 'IN', '#00b894');
+    }
+    if (this.probeOutput) {
+      renderEngine.renderProbe(this.probeOutput.position, 'OUT', '#0984e3');
+    }
+    if (this.acSweep) {
+      renderEngine.renderBodePlot(this.acSweep);
+    }
+
     // Render wire preview
     if (this.mode === InteractionMode.WIRE && this.wireStartComponent) {
       const startTerminal = this.wireStartComponent.getTerminal(this.wireStartTerminal);
@@ -9,6 +9,7 @@ import { PhysicsEngine } from './physics/PhysicsEngine';
 import { ParticleSystem } from './rendering/ParticleSystem';
 import { InputManager } from './input/InputManager';
 import { UIManager } from './ui/UIManager';
+import { AudioOutput } from './audio/AudioOutput';
 
 class Application {
   private simulator: CircuitSimulator;
@@ -16,6 +17,7 @@ class Application {
   private physicsEngine: PhysicsEngine;
   private particleSystem: ParticleSystem;
   private inputManager: InputManager;
+  private audioOutput: AudioOutput;
 
   private lastTime = 0;
   private fps = 0;
@@ -41,7 +43,8 @@ class Application {
     this.physicsEngine = new PhysicsEngine();
     this.simulator = new CircuitSimulator(this.physicsEngine);
     this.inputManager = new InputManager(mainCanvas, this.simulator);
-    new UIManager(this.simulator, this.inputManager);
+    this.audioOutput = new AudioOutput();
+    new UIManager(this.simulator, this.inputManager, this.audioOutput);
 
     console.log('✅ All systems initialized');
 
@@ -99,6 +102,7 @@ class Application {
 
     // Update simulation
     this.physicsEngine.update(deltaTime);
+    this.audioOutput.update(this.simulator.getComponents(), deltaTime);
     this.particleSystem.update(deltaTime, this.simulator.getComponents(), this.simulator.getWires());
 
     // Render
@@ -106,6 +110,7 @@ class Application {
     this.renderEngine.renderGrid(this.simulator.getComponents().length === 0);
     this.renderEngine.renderWires(this.simulator.getWires());
     this.renderEngine.renderComponents(this.simulator.getComponents());
+    this.renderEngine.renderDiagnostics(this.simulator.getDiagnostics());
     this.inputManager.render(this.renderEngine);
 
     this.particleSystem.render();
@@ -0,0 +1,278 @@
+/**
+ * Sparse LU factorization with a reusable symbolic analysis
+ *
+ * analyze() picks a pivot order (Markowitz with threshold pivoting) and
+ * computes the fill-in pattern of L and U once. factor() then recomputes
+ * only the numbers on that fixed pattern, which is all a timestep needs
+ * when component values change but the wiring does not.
+ */
+
+import { SparseMatrix } from './SparseMatrix';
+
+// Pivots smaller than this are treated as zero
+const PIVOT_TOLERANCE = 1e-18;
+
+// A pivot this much smaller than the rest of its row means the cached order went stale
+const RELATIVE_PIVOT_TOLERANCE = 1e-12;
+
+// Candidate pivots must be within this fraction of their column's largest entry
+const PIVOT_THRESHOLD = 0.1;
+
+export class SparseLU {
+  private n: number = 0;
+  private structureVersion: number = -1;
+
+  // Pivot k sits at original row rowPerm[k], column colPerm[k]
+  private rowPerm: number[] = [];
+  private colPerm: number[] = [];
+  private colInv: number[] = [];
+
+  // Row-wise factors of the permuted matrix; U rows start with the diagonal
+  private lowerCols: number[][] = [];
+  private lowerVals: number[][] = [];
+  private upperCols: number[][] = [];
+  private upperVals: number[][] = [];
+  private work: Float64Array = new Float64Array(0);
+  private singularColumns: number[] = [];
+
+  // True when the pivot order and pattern were computed for this matrix structure
+  isAnalyzedFor(matrix: SparseMatrix): boolean {
+    return this.n === matrix.size && this.structureVersion === matrix.getStructureVersion();
+  }
+
+  // Choose a pivot order, compute the fill pattern, then factor numerically
+  analyze(matrix: SparseMatrix): boolean {
+    this.structureVersion = -1;
+    if (!this.choosePivots(matrix)) return false;
+
+    this.computePattern(matrix);
+    this.structureVersion = matrix.getStructureVersion();
+    return this.factor(matrix);
+  }
+
+  // Numeric refactorization on the cached pattern; false if a pivot collapsed
+  factor(matrix: SparseMatrix): boolean {
+    const work = this.work;
+
+    for (let k = 0; k < this.n; k++) {
+      for (const [col, value] of matrix.getRow(this.rowPerm[k])) {
+        work[this.colInv[col]] += value;
+      }
+
+      // Eliminate with the rows above, in ascending column order
+      const lower = this.lowerCols[k];
+      for (const l of lower) {
+        const multiplier = work[l] / this.upperVals[l][0];
+        work[l] = multiplier;
+
+        const cols = this.upperCols[l];
+        const vals = this.upperVals[l];
+        for (let t = 1; t < cols.length; t++) {
+          work[cols[t]] -= multiplier * vals[t];
+        }
+      }
+
+      const lowerVals = this.lowerVals[k];
+      for (let i = 0; i < lower.length; i++) {
+        lowerVals[i] = work[lower[i]];
+        work[lower[i]] = 0;
+      }
+
+      const upper = this.upperCols[k];
+      const upperVals = this.upperVals[k];
+      let rowMax = 0;
+      for (let t = 0; t < upper.length; t++) {
+        upperVals[t] = work[upper[t]];
+        work[upper[t]] = 0;
+        rowMax = Math.max(rowMax, Math.abs(upperVals[t]));
+      }
+
+      const pivot = Math.abs(upperVals[0]);
+      if (pivot < PIVOT_TOLERANCE || pivot < RELATIVE_PIVOT_TOLERANCE * rowMax) {
+        this.work.fill(0);
+        this.singularColumns = [this.colPerm[k]];
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  // Unknowns (original columns) left without a usable pivot by the last failure
+  getSingularColumns(): number[] {
+    return this.singularColumns;
+  }
+
+  // Smallest over largest |U| diagonal; a cheap conditioning indicator
+  getPivotRatio(): number {
+    let min = Infinity;
+    let max = 0;
+    for (const vals of this.upperVals) {
+      const pivot = Math.abs(vals[0]);
+      min = Math.min(min, pivot);
+      max = Math.max(max, pivot);
+    }
+    return max > 0 ? min / max : 1;
+  }
+
+  solve(b: number[]): number[] {
+    const n = this.n;
+    const y: number[] = Array(n);
+
+    // Forward substitution with unit-diagonal L
+    for (let k = 0; k < n; k++) {
+      let sum = b[this.rowPerm[k]];
+      const cols = this.lowerCols[k];
+      const vals = this.lowerVals[k];
+      for (let i = 0; i < cols.length; i++) {
+        sum -= vals[i] * y[cols[i]];
+      }
+      y[k] = sum;
+    }
+
+    // Back substitution with U
+    for (let k = n - 1; k >= 0; k--) {
+      let sum = y[k];
+      const cols = this.upperCols[k];
+      const vals = this.upperVals[k];
+      for (let t = 1; t < cols.length; t++) {
+        sum -= vals[t] * y[cols[t]];
+      }
+      y[k] = sum / vals[0];
+    }
+
+    const x: number[] = Array(n);
+    for (let k = 0; k < n; k++) {
+      x[this.colPerm[k]] = y[k];
+    }
+    return x;
+  }
+
+  private choosePivots(matrix: SparseMatrix): boolean {
+    const n = matrix.size;
+    const rows = Array.from({ length: n }, (_, i) => new Map(matrix.getRow(i)));
+    const colRows = Array.from({ length: n }, () => new Set<number>());
+    const activeCol: boolean[] = Array(n).fill(true);
+
+    for (let i = 0; i < n; i++) {
+      for (const col of rows[i].keys()) {
+        colRows[col].add(i);
+      }
+    }
+
+    this.n = n;
+    this.singularColumns = [];
+    this.rowPerm = [];
+    this.colPerm = [];
+
+    for (let k = 0; k < n; k++) {
+      let bestRow = -1;
+      let bestCol = -1;
+      let bestCost = Infinity;
+      let bestMagnitude = 0;
+
+      // Markowitz: fewest fill-ins among numerically acceptable pivots
+      for (let col = 0; col < n; col++) {
+        if (!activeCol[col]) continue;
+
+        let colMax = 0;
+        for (const row of colRows[col]) {
+          colMax = Math.max(colMax, Math.abs(rows[row].get(col)!));
+        }
+        if (colMax < PIVOT_TOLERANCE) continue;
+
+        for (const row of colRows[col]) {
+          const magnitude = Math.abs(rows[row].get(col)!);
+          if (magnitude < PIVOT_THRESHOLD * colMax) continue;
+
+          const cost = (rows[row].size - 1) * (colRows[col].size - 1);
+          if (cost < bestCost || (cost === bestCost && magnitude > bestMagnitude)) {
+            bestRow = row;
+            bestCol = col;
+            bestCost = cost;
+            bestMagnitude = magnitude;
+          }
+        }
+      }
+
+      if (bestRow < 0) {
+        this.singularColumns = activeCol.map((active, col) => (active ? col : -1)).filter(col => col >= 0);
+        return false;
+      }
+
+      this.rowPerm.push(bestRow);
+      this.colPerm.push(bestCol);
+
+      // Eliminate the pivot column from the remaining rows
+      const pivotRow = rows[bestRow];
+      const pivot = pivotRow.get(bestCol)!;
+      for (const col of pivotRow.keys()) {
+        colRows[col].delete(bestRow);
+      }
+
+      for (const row of colRows[bestCol]) {
+        const entries = rows[row];
+        const factor = entries.get(bestCol)! / pivot;
+
+        for (const [col, value] of pivotRow) {
+          if (col === bestCol) continue;
+          const current = entries.get(col);
+          if (current === undefined) colRows[col].add(row);
+          entries.set(col, (current || 0) - factor * value);
+        }
+        entries.delete(bestCol);
+      }
+
+      colRows[bestCol].clear();
+      activeCol[bestCol] = false;
+    }
+
+    this.colInv = Array(n);
+    this.colPerm.forEach((col, k) => {
+      this.colInv[col] = k;
+    });
+    return true;
+  }
+
+  private computePattern(matrix: SparseMatrix): void {
+    const n = this.n;
+    const marked = new Uint8Array(n);
+
+    this.lowerCols = [];
+    this.upperCols = [];
+
+    // Symbolic Doolittle: row k fills wherever the U rows it eliminates with reach
+    for (let k = 0; k < n; k++) {
+      for (const col of matrix.getRow(this.rowPerm[k]).keys()) {
+        marked[this.colInv[col]] = 1;
+      }
+      marked[k] = 1;
+
+      const lower: number[] = [];
+      for (let l = 0; l < k; l++) {
+        if (!marked[l]) continue;
+        lower.push(l);
+        for (const j of this.upperCols[l]) {
+          marked[j] = 1;
+        }
+        marked[l] = 0;
+      }
+
+      const upper: number[] = [k];
+      marked[k] = 0;
+      for (let j = k + 1; j < n; j++) {
+        if (marked[j]) {
+          upper.push(j);
+          marked[j] = 0;
+        }
+      }
+
+      this.lowerCols.push(lower);
+      this.upperCols.push(upper);
+    }
+
+    this.lowerVals = this.lowerCols.map(cols => Array(cols.length).fill(0));
+    this.upperVals = this.upperCols.map(cols => Array(cols.length).fill(0));
+    this.work = new Float64Array(n);
+  }
+}
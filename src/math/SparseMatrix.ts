@@ -0,0 +1,63 @@
+/**
+ * Sparse square matrix stored as one column→value map per row
+ *
+ * Clearing keeps the structure and only zeroes the values, so a circuit that
+ * stamps the same entries every timestep keeps a stable sparsity pattern.
+ */
+
+export class SparseMatrix {
+  private rows: Map<number, number>[];
+  private structureVersion: number = 0;
+
+  constructor(public readonly size: number) {
+    this.rows = Array.from({ length: size }, () => new Map<number, number>());
+  }
+
+  add(row: number, col: number, value: number): void {
+    const entries = this.rows[row];
+    const current = entries.get(col);
+    if (current === undefined) {
+      entries.set(col, value);
+      this.structureVersion++;
+    } else {
+      entries.set(col, current + value);
+    }
+  }
+
+  get(row: number, col: number): number {
+    return this.rows[row].get(col) || 0;
+  }
+
+  getRow(row: number): Map<number, number> {
+    return this.rows[row];
+  }
+
+  // Zero every value while keeping the pattern
+  clear(): void {
+    for (const entries of this.rows) {
+      for (const col of entries.keys()) {
+        entries.set(col, 0);
+      }
+    }
+  }
+
+  // Bumped whenever a new entry joins the pattern
+  getStructureVersion(): number {
+    return this.structureVersion;
+  }
+
+  getNonZeroCount(): number {
+    return this.rows.reduce((count, entries) => count + entries.size, 0);
+  }
+
+  // Values in pattern order; equal snapshots mean an identical matrix
+  snapshot(): number[] {
+    const values: number[] = [];
+    for (const entries of this.rows) {
+      for (const value of entries.values()) {
+        values.push(value);
+      }
+    }
+    return values;
+  }
+}
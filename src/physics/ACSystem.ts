@@ -0,0 +1,171 @@
+/**
+ * AC System - Complex-valued MNA for small-signal frequency analysis
+ *
+ * Uses the same unknown layout as MNASystem, plus one extra branch for the
+ * test source. Each complex equation is stored as its real equivalent
+ * [Re -Im; Im Re], so the sparse LU from the time-domain solver is reused
+ * and the pivot order found at the first frequency serves the whole sweep.
+ */
+
+import { Component, Terminal } from '../core/Component';
+import { Netlist } from '../core/Netlist';
+import { SparseMatrix } from '../math/SparseMatrix';
+import { SparseLU } from '../math/SparseLU';
+import { GROUND } from './MNASystem';
+
+export interface Phasor {
+  re: number;
+  im: number;
+}
+
+export class ACSystem {
+  private netlist: Netlist;
+  private branchRows: Map<Component, number> = new Map();
+  private nodeCount: number;
+  private size: number; // Complex unknowns; the real system is twice as large
+  private stimulusBranch: number;
+
+  private A: SparseMatrix;
+  private b: number[] = [];
+  private lu: SparseLU = new SparseLU();
+  private x: number[] = [];
+  private omega: number = 0;
+
+  constructor(netlist: Netlist, components: Component[]) {
+    this.netlist = netlist;
+    this.nodeCount = Math.max(netlist.getNets().length - 1, 0);
+
+    let branchCount = 0;
+    for (const component of components) {
+      const count = component.getBranchCount();
+      if (count > 0) {
+        this.branchRows.set(component, this.nodeCount + branchCount);
+        branchCount += count;
+      }
+    }
+
+    this.stimulusBranch = this.nodeCount + branchCount;
+    this.size = this.stimulusBranch + 1;
+    this.A = new SparseMatrix(2 * this.size);
+    this.x = Array(2 * this.size).fill(0);
+    this.reset();
+  }
+
+  getNodeCount(): number {
+    return this.nodeCount;
+  }
+
+  // Clear matrix and right-hand side before stamping the next frequency
+  reset(): void {
+    this.A.clear();
+    this.b = Array(2 * this.size).fill(0);
+  }
+
+  setFrequency(frequency: number): void {
+    this.omega = 2 * Math.PI * frequency;
+  }
+
+  // Angular frequency ω (rad/s) of the current solve
+  getOmega(): number {
+    return this.omega;
+  }
+
+  getNetRow(netId: number): number {
+    return netId > 0 ? netId - 1 : GROUND;
+  }
+
+  getNode(terminal: Terminal): number {
+    const net = this.netlist.getNet(terminal);
+    return net ? this.getNetRow(net.id) : GROUND;
+  }
+
+  getBranch(component: Component, k: number = 0): number {
+    const base = this.branchRows.get(component);
+    if (base === undefined || k >= component.getBranchCount()) {
+      throw new Error(`Component ${component.getId()} has no branch ${k}`);
+    }
+    return base + k;
+  }
+
+  // Branch row of the 1 V test source driving the sweep
+  getStimulusBranch(): number {
+    return this.stimulusBranch;
+  }
+
+  stampMatrix(row: number, col: number, re: number, im: number = 0): void {
+    if (row === GROUND || col === GROUND) return;
+
+    // Always add both parts so the pattern does not change with frequency
+    const n = this.size;
+    this.A.add(row, col, re);
+    this.A.add(row, col + n, -im);
+    this.A.add(row + n, col, im);
+    this.A.add(row + n, col + n, re);
+  }
+
+  stampRHS(row: number, re: number, im: number = 0): void {
+    if (row === GROUND) return;
+    this.b[row] += re;
+    this.b[row + this.size] += im;
+  }
+
+  // Admittance Y = re + j·im between two nodes
+  stampAdmittance(a: number, b: number, re: number, im: number = 0): void {
+    this.stampMatrix(a, a, re, im);
+    this.stampMatrix(b, b, re, im);
+    this.stampMatrix(a, b, -re, -im);
+    this.stampMatrix(b, a, -re, -im);
+  }
+
+  // Source V in series with impedance Z = re + j·im; the branch carries the current pos → neg
+  stampVoltageSource(pos: number, neg: number, branch: number, voltage: number, re: number = 0, im: number = 0): void {
+    this.stampMatrix(pos, branch, 1);
+    this.stampMatrix(neg, branch, -1);
+    this.stampMatrix(branch, pos, 1);
+    this.stampMatrix(branch, neg, -1);
+    this.stampMatrix(branch, branch, -re, -im);
+    this.stampRHS(branch, voltage);
+  }
+
+  // Controlled sources, with the same conventions as MNASystem; gains are small-signal
+  stampVCVS(outPos: number, outNeg: number, branch: number, ctrlPos: number, ctrlNeg: number, gain: number): void {
+    this.stampVoltageSource(outPos, outNeg, branch, 0);
+    this.stampMatrix(branch, ctrlPos, -gain);
+    this.stampMatrix(branch, ctrlNeg, gain);
+  }
+
+  stampVCCS(outPos: number, outNeg: number, ctrlPos: number, ctrlNeg: number, gain: number): void {
+    this.stampMatrix(outPos, ctrlPos, gain);
+    this.stampMatrix(outPos, ctrlNeg, -gain);
+    this.stampMatrix(outNeg, ctrlPos, -gain);
+    this.stampMatrix(outNeg, ctrlNeg, gain);
+  }
+
+  stampCCVS(outPos: number, outNeg: number, branch: number, ctrlBranch: number, gain: number): void {
+    this.stampVoltageSource(outPos, outNeg, branch, 0);
+    this.stampMatrix(branch, ctrlBranch, -gain);
+  }
+
+  stampCCCS(outPos: number, outNeg: number, ctrlBranch: number, gain: number): void {
+    this.stampMatrix(outPos, ctrlBranch, gain);
+    this.stampMatrix(outNeg, ctrlBranch, -gain);
+  }
+
+  // Solve A x = b; returns false when the system is singular at this frequency
+  solve(): boolean {
+    const ok = this.lu.isAnalyzedFor(this.A) && this.lu.factor(this.A);
+    if (!ok && !this.lu.analyze(this.A)) return false;
+
+    this.x = this.lu.solve(this.b);
+    return true;
+  }
+
+  getVoltage(node: number): Phasor {
+    if (node === GROUND) return { re: 0, im: 0 };
+    return { re: this.x[node], im: this.x[node + this.size] };
+  }
+
+  getBranchCurrent(branch: number): Phasor {
+    return { re: this.x[branch], im: this.x[branch + this.size] };
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Analysis Results - Typed output of the direct (non real-time) analyses
+ */
+
+import { Component } from '../core/Component';
+import { Net } from '../core/Netlist';
+import { CircuitDiagnostic } from './CircuitDiagnostics';
+
+export interface NetVoltage {
+  net: Net;
+  voltage: number; // V relative to ground
+}
+
+export interface ComponentOperatingPoint {
+  component: Component;
+  voltage: number;           // Terminal 0 minus terminal 1 (two-terminal parts)
+  current: number;           // Current into terminal 0 (A)
+  terminalCurrents: number[]; // Current into each terminal (A)
+  power: number;             // Absorbed power (W); negative when delivering
+}
+
+export interface OperatingPoint {
+  converged: boolean;
+  iterations: number;
+  nets: NetVoltage[];
+  components: ComponentOperatingPoint[];
+  diagnostics: CircuitDiagnostic[];
+}
+
+export interface ACSweepOptions {
+  startFrequency: number; // Hz
+  stopFrequency: number;  // Hz
+  pointsPerDecade: number;
+}
+
+export interface FrequencyPoint {
+  frequency: number;   // Hz
+  magnitude: number;   // |Vout / Vin|
+  magnitudeDb: number; // 20·log10(magnitude)
+  phase: number;       // Degrees, unwrapped along the sweep
+}
+
+export interface ACSweep {
+  input: Net;  // Driven with a 1 V test source against ground
+  output: Net;
+  points: FrequencyPoint[];
+  cutoffFrequencies: number[]; // Where the response crosses 3 dB below its peak
+  operatingPoint: OperatingPoint; // Bias the nonlinear parts were linearized at
+}
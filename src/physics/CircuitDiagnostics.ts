@@ -0,0 +1,264 @@
+/**
+ * Circuit Diagnostics - Explains why a circuit cannot be solved
+ *
+ * Topology checks run on the netlist and each component's couplings, so the
+ * offending nets and parts can be named even when gmin keeps the matrix
+ * technically solvable. Numeric failures from the solver are reported too.
+ */
+
+import { Component, CouplingKind } from '../core/Component';
+import { Net, Netlist } from '../core/Netlist';
+
+export enum DiagnosticKind {
+  FLOATING_SUBCIRCUIT = 'floating-subcircuit',
+  VOLTAGE_SOURCE_LOOP = 'voltage-source-loop',
+  CURRENT_SOURCE_CUTSET = 'current-source-cutset',
+  SINGULAR_MATRIX = 'singular-matrix',
+  ILL_CONDITIONED = 'ill-conditioned'
+}
+
+export enum DiagnosticSeverity {
+  WARNING = 'warning', // Solvable, but the values shown are not meaningful
+  ERROR = 'error'      // The solver cannot produce a consistent answer
+}
+
+export interface CircuitDiagnostic {
+  kind: DiagnosticKind;
+  severity: DiagnosticSeverity;
+  message: string;
+  nets: Net[];
+  components: Component[];
+}
+
+interface Edge {
+  a: number; // Net ids
+  b: number;
+  component: Component;
+}
+
+/**
+ * Topology checks. With dcOnly set, capacitive couplings count as open,
+ * as they do in a DC operating point.
+ */
+export function diagnoseTopology(netlist: Netlist, components: Component[], dcOnly: boolean = false): CircuitDiagnostic[] {
+  const diagnostics: CircuitDiagnostic[] = [];
+  const nets = netlist.getNets();
+  if (nets.length === 0) return diagnostics;
+
+  const conductive: Edge[] = [];
+  const voltageSources: Edge[] = [];
+  const currentSources: Edge[] = [];
+  const magnetic: Edge[] = [];
+
+  for (const component of components) {
+    for (const coupling of component.getCouplings()) {
+      const from = component.getTerminal(coupling.from);
+      const to = component.getTerminal(coupling.to);
+      const netA = from ? netlist.getNet(from) : null;
+      const netB = to ? netlist.getNet(to) : null;
+      if (!netA || !netB) continue;
+
+      const edge = { a: netA.id, b: netB.id, component };
+      switch (coupling.kind) {
+        case CouplingKind.CONDUCTIVE:
+          conductive.push(edge);
+          break;
+        case CouplingKind.CAPACITIVE:
+          if (!dcOnly) conductive.push(edge);
+          break;
+        case CouplingKind.VOLTAGE_SOURCE:
+          voltageSources.push(edge);
+          break;
+        case CouplingKind.CURRENT_SOURCE:
+          currentSources.push(edge);
+          break;
+        case CouplingKind.MAGNETIC:
+          magnetic.push(edge);
+          break;
+      }
+    }
+  }
+
+  diagnostics.push(...findVoltageSourceLoops(nets, voltageSources));
+  diagnostics.push(...findUngroundedIslands(nets, [...conductive, ...voltageSources], currentSources, magnetic));
+  return diagnostics;
+}
+
+// Report unknowns the LU factorization could not pivot on
+export function diagnoseSingularSystem(nets: Net[], components: Component[]): CircuitDiagnostic {
+  const names = components.map(c => c.getId()).join(', ');
+  return {
+    kind: DiagnosticKind.SINGULAR_MATRIX,
+    severity: DiagnosticSeverity.ERROR,
+    message: `Circuit equations are singular${names ? ` around ${names}` : ''}`,
+    nets,
+    components
+  };
+}
+
+export function diagnoseIllConditioning(pivotRatio: number): CircuitDiagnostic {
+  return {
+    kind: DiagnosticKind.ILL_CONDITIONED,
+    severity: DiagnosticSeverity.WARNING,
+    message: `Circuit equations are ill-conditioned (pivot ratio ${pivotRatio.toExponential(1)}); results may be inaccurate`,
+    nets: [],
+    components: []
+  };
+}
+
+function findVoltageSourceLoops(nets: Net[], edges: Edge[]): CircuitDiagnostic[] {
+  const diagnostics: CircuitDiagnostic[] = [];
+  const adjacency = new Map<number, Edge[]>();
+  const parent = nets.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  for (const edge of edges) {
+    const rootA = find(edge.a);
+    const rootB = find(edge.b);
+
+    if (rootA === rootB) {
+      // This source closes a loop: the rest of the loop is the forest path between its nets
+      const path = findPath(adjacency, edge.a, edge.b);
+      const loopComponents = [edge.component, ...path.map(e => e.component)];
+      const loopNets = [...new Set([edge.a, edge.b, ...path.flatMap(e => [e.a, e.b])])].map(id => nets[id]);
+
+      diagnostics.push({
+        kind: DiagnosticKind.VOLTAGE_SOURCE_LOOP,
+        severity: DiagnosticSeverity.ERROR,
+        message: `Loop of ideal voltage sources: ${loopComponents.map(c => c.getId()).join(', ')}`,
+        nets: loopNets,
+        components: loopComponents
+      });
+      continue;
+    }
+
+    parent[rootA] = rootB;
+    for (const net of [edge.a, edge.b]) {
+      if (!adjacency.has(net)) adjacency.set(net, []);
+      adjacency.get(net)!.push(edge);
+    }
+  }
+
+  return diagnostics;
+}
+
+function findPath(adjacency: Map<number, Edge[]>, start: number, goal: number): Edge[] {
+  const via = new Map<number, Edge | null>([[start, null]]);
+  const queue = [start];
+
+  while (queue.length > 0) {
+    const net = queue.shift()!;
+    if (net === goal) break;
+
+    for (const edge of adjacency.get(net) || []) {
+      const next = edge.a === net ? edge.b : edge.a;
+      if (!via.has(next)) {
+        via.set(next, edge);
+        queue.push(next);
+      }
+    }
+  }
+
+  const path: Edge[] = [];
+  let net = goal;
+  while (via.get(net)) {
+    const edge = via.get(net)!;
+    path.push(edge);
+    net = edge.a === net ? edge.b : edge.a;
+  }
+  return path;
+}
+
+function findUngroundedIslands(nets: Net[], paths: Edge[], currentSources: Edge[], magnetic: Edge[]): CircuitDiagnostic[] {
+  // Flood from ground (net 0) through everything that fixes a voltage
+  const island: number[] = nets.map(() => -1);
+  const adjacency = new Map<number, Edge[]>();
+  for (const edge of paths) {
+    for (const net of [edge.a, edge.b]) {
+      if (!adjacency.has(net)) adjacency.set(net, []);
+      adjacency.get(net)!.push(edge);
+    }
+  }
+
+  let islandCount = 0;
+  for (const net of nets) {
+    if (island[net.id] !== -1) continue;
+
+    const stack = [net.id];
+    island[net.id] = islandCount;
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      for (const edge of adjacency.get(current) || []) {
+        const next = edge.a === current ? edge.b : edge.a;
+        if (island[next] === -1) {
+          island[next] = islandCount;
+          stack.push(next);
+        }
+      }
+    }
+    islandCount++;
+  }
+
+  // Islands joined only through transformer windings form one group: an
+  // isolated secondary is fine as long as its group reaches ground
+  const group = [...Array(islandCount).keys()];
+  const findGroup = (i: number): number => {
+    while (group[i] !== i) {
+      group[i] = group[group[i]];
+      i = group[i];
+    }
+    return i;
+  };
+  for (const edge of magnetic) {
+    group[findGroup(island[edge.a])] = findGroup(island[edge.b]);
+  }
+
+  const diagnostics: CircuitDiagnostic[] = [];
+  const groundGroup = findGroup(island[0]);
+  const floating = new Map<number, Net[]>(); // Group → nets of its floating islands
+
+  for (let id = 0; id < islandCount; id++) {
+    if (findGroup(id) === groundGroup) continue;
+
+    const islandNets = nets.filter(net => island[net.id] === id);
+    const components = [...new Set(islandNets.flatMap(net => net.components))];
+
+    const feeding = currentSources.filter(edge => (island[edge.a] === id) !== (island[edge.b] === id));
+    if (feeding.length > 0) {
+      diagnostics.push({
+        kind: DiagnosticKind.CURRENT_SOURCE_CUTSET,
+        severity: DiagnosticSeverity.ERROR,
+        message: `Only current sources connect ${describe(components)} to the rest of the circuit`,
+        nets: islandNets,
+        components: [...new Set([...components, ...feeding.map(edge => edge.component)])]
+      });
+    } else {
+      const groupNets = floating.get(findGroup(id)) || [];
+      floating.set(findGroup(id), [...groupNets, ...islandNets]);
+    }
+  }
+
+  for (const groupNets of floating.values()) {
+    const components = [...new Set(groupNets.flatMap(net => net.components))];
+    diagnostics.push({
+      kind: DiagnosticKind.FLOATING_SUBCIRCUIT,
+      severity: DiagnosticSeverity.WARNING,
+      message: `${describe(components)} ${components.length === 1 ? 'is' : 'are'} not connected to ground`,
+      nets: groupNets,
+      components
+    });
+  }
+
+  return diagnostics;
+}
+
+function describe(components: Component[]): string {
+  if (components.length === 0) return 'Unconnected nets';
+  return components.map(c => c.getId()).join(', ');
+}
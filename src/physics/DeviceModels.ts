@@ -0,0 +1,132 @@
+/**
+ * Device Models - Shared equations for semiconductor junctions, inductances and capacitances
+ * Used by nonlinear components when they linearize around an operating point,
+ * by every winding (inductor, relay coil, transformer) for its companion model,
+ * and by capacitors and MOSFET gates for theirs
+ */
+
+import { IntegrationMethod } from './MNASystem';
+
+// kT/q at room temperature (V)
+export const THERMAL_VOLTAGE = 0.025852;
+
+// Keeps exp() finite when an iteration overshoots badly
+const MAX_EXPONENT = 80;
+
+export interface JunctionLinearization {
+  current: number;     // I(V) at the operating point (A)
+  conductance: number; // dI/dV at the operating point (S)
+}
+
+// Shockley equation and its derivative: I = Is * (exp(V / nVt) - 1)
+export function junction(voltage: number, saturationCurrent: number, nVt: number): JunctionLinearization {
+  const expTerm = Math.exp(Math.min(voltage / nVt, MAX_EXPONENT));
+  return {
+    current: saturationCurrent * (expTerm - 1),
+    conductance: (saturationCurrent / nVt) * expTerm
+  };
+}
+
+// Voltage above which the junction current grows too fast for undamped Newton steps
+export function criticalVoltage(saturationCurrent: number, nVt: number): number {
+  return nVt * Math.log(nVt / (Math.SQRT2 * saturationCurrent));
+}
+
+/**
+ * SPICE-style junction voltage limiting (pnjlim). Large forward steps are
+ * replaced by a logarithmic step so the exponential cannot blow up between
+ * two Newton-Raphson iterations.
+ */
+export function limitJunctionVoltage(vNew: number, vOld: number, nVt: number, vCrit: number): number {
+  if (vNew > vCrit && Math.abs(vNew - vOld) > 2 * nVt) {
+    if (vOld > 0) {
+      const arg = 1 + (vNew - vOld) / nVt;
+      return arg > 0 ? vOld + nVt * Math.log(arg) : vCrit;
+    }
+    return nVt * Math.log(vNew / nVt);
+  }
+  return vNew;
+}
+
+export interface InductorCompanion {
+  voltage: number;    // History source in series with the inductance (V)
+  resistance: number; // Equivalent resistance L/dt or 2L/dt (Ω)
+}
+
+export interface CoupledInductorCompanion {
+  r11: number; // First winding's self term (Ω)
+  r22: number; // Second winding's self term (Ω)
+  r12: number; // Mutual term (Ω)
+  v1: number;  // History voltage in series with the first winding (V)
+  v2: number;  // History voltage in series with the second winding (V)
+}
+
+// Scale from inductance to companion resistance: v(n) = k·L·(i(n) - i(n-1)) [- v(n-1)]
+function companionScale(timeStep: number, method: IntegrationMethod): number {
+  return method === IntegrationMethod.TRAPEZOIDAL ? 2 / timeStep : 1 / timeStep;
+}
+
+/**
+ * Companion model of an inductance over one timestep, from the current and
+ * voltage at the end of the last one. Backward Euler: v(n) = L/dt·(i(n) -
+ * i(n-1)); trapezoidal: v(n) = 2L/dt·(i(n) - i(n-1)) - v(n-1).
+ */
+export function inductorCompanion(
+  inductance: number,
+  current: number,
+  previousVoltage: number,
+  timeStep: number,
+  method: IntegrationMethod
+): InductorCompanion {
+  const resistance = inductance * companionScale(timeStep, method);
+  const history = method === IntegrationMethod.TRAPEZOIDAL ? previousVoltage : 0;
+  return { voltage: -resistance * current - history, resistance };
+}
+
+// Two magnetically coupled inductances: the same, with the 2×2 inductance matrix
+export function coupledInductorCompanion(
+  inductances: { self1: number; self2: number; mutual: number },
+  currents: [number, number],
+  previousVoltages: [number, number],
+  timeStep: number,
+  method: IntegrationMethod
+): CoupledInductorCompanion {
+  const scale = companionScale(timeStep, method);
+  const r11 = inductances.self1 * scale;
+  const r22 = inductances.self2 * scale;
+  const r12 = inductances.mutual * scale;
+  const trapezoidal = method === IntegrationMethod.TRAPEZOIDAL;
+  return {
+    r11, r22, r12,
+    v1: -(r11 * currents[0] + r12 * currents[1]) - (trapezoidal ? previousVoltages[0] : 0),
+    v2: -(r12 * currents[0] + r22 * currents[1]) - (trapezoidal ? previousVoltages[1] : 0)
+  };
+}
+
+export interface CapacitorCompanion {
+  voltage: number;    // History source in series with the capacitance (V)
+  resistance: number; // Equivalent resistance dt/C or dt/2C (Ω)
+}
+
+/**
+ * Companion model of a capacitance over one timestep, from the voltage and
+ * current at the end of the last one. Backward Euler: i(n) = C/dt·(v(n) -
+ * v(n-1)); trapezoidal: i(n) = 2C/dt·(v(n) - v(n-1)) - i(n-1).
+ */
+export function capacitorCompanion(
+  capacitance: number,
+  previousVoltage: number,
+  previousCurrent: number,
+  timeStep: number,
+  method: IntegrationMethod
+): CapacitorCompanion {
+  const resistance = 1 / (capacitance * companionScale(timeStep, method));
+  const history = method === IntegrationMethod.TRAPEZOIDAL ? previousCurrent * resistance : 0;
+  return { voltage: previousVoltage + history, resistance };
+}
+
+// Voltage across the ideal inductance once the step's current is solved,
+// kept as the next step's trapezoidal history term
+export function inductorVoltage(companion: InductorCompanion, current: number): number {
+  return companion.voltage + companion.resistance * current;
+}
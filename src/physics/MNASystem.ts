@@ -0,0 +1,329 @@
+/**
+ * MNA System - Matrix, right-hand side and solution for one circuit solve
+ *
+ * Unknowns are ordered as [node voltages..., branch currents...].
+ * Components never touch the matrix layout directly: they ask for the row of
+ * a terminal or of one of their branches and use the stamp helpers below.
+ */
+
+import { Component, Terminal } from '../core/Component';
+import { Net, Netlist } from '../core/Netlist';
+import { SparseMatrix } from '../math/SparseMatrix';
+import { SparseLU } from '../math/SparseLU';
+
+// Row index used for the ground reference; stamps against it are dropped
+export const GROUND = -1;
+
+// How energy-storage parts discretize their derivative over one timestep
+export enum IntegrationMethod {
+  BACKWARD_EULER = 'backward-euler',
+  TRAPEZOIDAL = 'trapezoidal'
+}
+
+// Which equations energy-storage parts contribute
+export enum AnalysisMode {
+  TRANSIENT = 'transient', // Companion models over one timestep
+  DC = 'dc'                // Steady state: capacitors open, inductors shorted
+}
+
+export interface SolverStats {
+  analyses: number;       // Pivot order + fill pattern computed from scratch
+  factorizations: number; // Numeric refactorizations on the cached pattern
+  reuses: number;         // Solves that reused the previous factors unchanged
+}
+
+export class MNASystem {
+  private netlist: Netlist;
+  private branchRows: Map<Component, number> = new Map();
+  private nodeCount: number;
+  private size: number;
+
+  private A: SparseMatrix;
+  private b: number[] = [];
+  private lu: SparseLU = new SparseLU();
+  private factoredValues: number[] | null = null;
+  private stats: SolverStats = { analyses: 0, factorizations: 0, reuses: 0 };
+  private x: number[] = [];
+  private limited: boolean = false;
+  private timeStep: number = 0.001;
+  private integrationMethod: IntegrationMethod = IntegrationMethod.BACKWARD_EULER;
+  private analysisMode: AnalysisMode = AnalysisMode.TRANSIENT;
+
+  constructor(netlist: Netlist, components: Component[]) {
+    this.netlist = netlist;
+
+    // Net n (n > 0) lives on row n - 1; net 0 is ground and has no row
+    this.nodeCount = Math.max(netlist.getNets().length - 1, 0);
+
+    let branchCount = 0;
+    for (const component of components) {
+      const count = component.getBranchCount();
+      if (count > 0) {
+        this.branchRows.set(component, this.nodeCount + branchCount);
+        branchCount += count;
+      }
+    }
+
+    this.size = this.nodeCount + branchCount;
+    this.A = new SparseMatrix(this.size);
+    this.x = Array(this.size).fill(0);
+    this.reset();
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  getNodeCount(): number {
+    return this.nodeCount;
+  }
+
+  // Clear matrix and right-hand side before a new round of stamping
+  reset(): void {
+    this.A.clear();
+    this.b = Array(this.size).fill(0);
+    this.limited = false;
+  }
+
+  // Called by nonlinear stamps that clamped their operating point this iteration
+  markLimited(): void {
+    this.limited = true;
+  }
+
+  wasLimited(): boolean {
+    return this.limited;
+  }
+
+  setTimeStep(timeStep: number, method: IntegrationMethod): void {
+    this.timeStep = timeStep;
+    this.integrationMethod = method;
+  }
+
+  getTimeStep(): number {
+    return this.timeStep;
+  }
+
+  getIntegrationMethod(): IntegrationMethod {
+    return this.integrationMethod;
+  }
+
+  setAnalysisMode(mode: AnalysisMode): void {
+    this.analysisMode = mode;
+  }
+
+  getAnalysisMode(): AnalysisMode {
+    return this.analysisMode;
+  }
+
+  // Matrix row of a net (GROUND for the reference)
+  getNetRow(netId: number): number {
+    return netId > 0 ? netId - 1 : GROUND;
+  }
+
+  // Matrix row of the net a terminal is connected to
+  getNode(terminal: Terminal): number {
+    const net = this.netlist.getNet(terminal);
+    return net ? this.getNetRow(net.id) : GROUND;
+  }
+
+  // Matrix row of a component's k-th branch current unknown
+  getBranch(component: Component, k: number = 0): number {
+    const base = this.branchRows.get(component);
+    if (base === undefined || k >= component.getBranchCount()) {
+      throw new Error(`Component ${component.getId()} has no branch ${k}`);
+    }
+    return base + k;
+  }
+
+  stampMatrix(row: number, col: number, value: number): void {
+    if (row === GROUND || col === GROUND) return;
+    this.A.add(row, col, value);
+  }
+
+  stampRHS(row: number, value: number): void {
+    if (row === GROUND) return;
+    this.b[row] += value;
+  }
+
+  // Conductance g between nodes a and b
+  stampConductance(a: number, b: number, g: number): void {
+    this.stampMatrix(a, a, g);
+    this.stampMatrix(a, b, -g);
+    this.stampMatrix(b, a, -g);
+    this.stampMatrix(b, b, g);
+  }
+
+  // Current source drawing `current` out of node `from` and injecting it into node `to`
+  stampCurrentSource(from: number, to: number, current: number): void {
+    this.stampRHS(from, -current);
+    this.stampRHS(to, current);
+  }
+
+  /**
+   * Linearized multi-terminal device: the current into terminal k is
+   * currents[k] + Σ jacobian[k][j] · (V_j - voltages[j]), where voltages are
+   * the node voltages the currents and jacobian were evaluated at.
+   */
+  stampLinearizedCurrents(nodes: number[], currents: number[], jacobian: number[][], voltages: number[]): void {
+    for (let k = 0; k < nodes.length; k++) {
+      let constant = currents[k];
+      for (let j = 0; j < nodes.length; j++) {
+        this.stampMatrix(nodes[k], nodes[j], jacobian[k][j]);
+        constant -= jacobian[k][j] * voltages[j];
+      }
+      this.stampRHS(nodes[k], -constant);
+    }
+  }
+
+  /**
+   * Voltage source V(pos) - V(neg) = voltage + resistance * I, where I is the
+   * branch current flowing into `pos` through the source and out of `neg`.
+   * A non-zero resistance models an internal series resistance exactly.
+   */
+  stampVoltageSource(pos: number, neg: number, branch: number, voltage: number, resistance: number = 0): void {
+    this.stampMatrix(pos, branch, 1);
+    this.stampMatrix(neg, branch, -1);
+    this.stampMatrix(branch, pos, 1);
+    this.stampMatrix(branch, neg, -1);
+    this.stampMatrix(branch, branch, -resistance);
+    this.stampRHS(branch, voltage);
+  }
+
+  /**
+   * Voltage-controlled voltage source:
+   * V(outPos) - V(outNeg) = gain · (V(ctrlPos) - V(ctrlNeg)) + offset.
+   * The branch carries the output current, as in stampVoltageSource.
+   */
+  stampVCVS(outPos: number, outNeg: number, branch: number, ctrlPos: number, ctrlNeg: number, gain: number, offset: number = 0): void {
+    this.stampVoltageSource(outPos, outNeg, branch, offset);
+    this.stampMatrix(branch, ctrlPos, -gain);
+    this.stampMatrix(branch, ctrlNeg, gain);
+  }
+
+  // Voltage-controlled current source: gain · (V(ctrlPos) - V(ctrlNeg)) drawn out of outPos into outNeg
+  stampVCCS(outPos: number, outNeg: number, ctrlPos: number, ctrlNeg: number, gain: number): void {
+    this.stampMatrix(outPos, ctrlPos, gain);
+    this.stampMatrix(outPos, ctrlNeg, -gain);
+    this.stampMatrix(outNeg, ctrlPos, -gain);
+    this.stampMatrix(outNeg, ctrlNeg, gain);
+  }
+
+  /**
+   * Current-controlled voltage source:
+   * V(outPos) - V(outNeg) = gain · I(ctrlBranch) + offset, gain in ohms.
+   * The controlling current is another branch unknown, e.g. a 0 V sense source.
+   */
+  stampCCVS(outPos: number, outNeg: number, branch: number, ctrlBranch: number, gain: number, offset: number = 0): void {
+    this.stampVoltageSource(outPos, outNeg, branch, offset);
+    this.stampMatrix(branch, ctrlBranch, -gain);
+  }
+
+  // Current-controlled current source: gain · I(ctrlBranch) drawn out of outPos into outNeg
+  stampCCCS(outPos: number, outNeg: number, ctrlBranch: number, gain: number): void {
+    this.stampMatrix(outPos, ctrlBranch, gain);
+    this.stampMatrix(outNeg, ctrlBranch, -gain);
+  }
+
+  // Solve A x = b; returns false when the system is singular
+  solve(): boolean {
+    if (this.size === 0) {
+      this.x = [];
+      return true;
+    }
+
+    if (!this.factorize()) {
+      this.factoredValues = null;
+      return false;
+    }
+
+    this.x = this.lu.solve(this.b);
+    return true;
+  }
+
+  /**
+   * Change in the solution for a unit change in one right-hand-side row,
+   * using the factors of the last successful solve (no re-stamping).
+   */
+  getSensitivity(row: number): number[] {
+    const rhs = Array(this.size).fill(0);
+    rhs[row] = 1;
+    return this.lu.solve(rhs);
+  }
+
+  // Nets and components whose unknowns the factorization could not resolve
+  getSingularUnknowns(): { nets: Net[]; components: Component[] } {
+    const nets: Net[] = [];
+    const components: Component[] = [];
+
+    for (const col of this.lu.getSingularColumns()) {
+      if (col < this.nodeCount) {
+        nets.push(this.netlist.getNets()[col + 1]);
+        continue;
+      }
+      for (const [component, base] of this.branchRows) {
+        if (col >= base && col < base + component.getBranchCount() && !components.includes(component)) {
+          components.push(component);
+        }
+      }
+    }
+
+    return { nets, components };
+  }
+
+  getPivotRatio(): number {
+    return this.lu.getPivotRatio();
+  }
+
+  getSolverStats(): SolverStats {
+    return { ...this.stats };
+  }
+
+  // Reuse the LU factors when nothing changed, refactor on new values, re-analyze on new structure
+  private factorize(): boolean {
+    const values = this.A.snapshot();
+
+    if (this.lu.isAnalyzedFor(this.A)) {
+      if (this.factoredValues && this.sameValues(values, this.factoredValues)) {
+        this.stats.reuses++;
+        return true;
+      }
+
+      if (this.lu.factor(this.A)) {
+        this.stats.factorizations++;
+        this.factoredValues = values;
+        return true;
+      }
+    }
+
+    // New pattern, or the cached pivot order no longer suits these values
+    this.stats.analyses++;
+    if (!this.lu.analyze(this.A)) return false;
+    this.factoredValues = values;
+    return true;
+  }
+
+  private sameValues(a: number[], b: number[]): boolean {
+    if (a.length !== b.length) return false;
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
+  // Move only part of the way from the previous iterate toward the new solution
+  dampSolution(previous: number[], factor: number): void {
+    this.x = this.x.map((value, i) => previous[i] + factor * (value - previous[i]));
+  }
+
+  getVoltage(node: number): number {
+    return node === GROUND ? 0 : this.x[node];
+  }
+
+  getBranchCurrent(branch: number): number {
+    return this.x[branch];
+  }
+
+  getSolution(): number[] {
+    return this.x;
+  }
+}
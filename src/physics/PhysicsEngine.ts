@@ -3,24 +3,56 @@
  * This is the heart of accurate circuit simulation
  */
 
-import { Component } from '../core/Component';
+import { Component, Terminal } from '../core/Component';
 import { Wire } from '../core/Wire';
-
-interface CircuitNode {
-  id: number;
-  voltage: number;
-  components: Component[];
+import { Net, Netlist } from '../core/Netlist';
+import { MNASystem, GROUND, IntegrationMethod, AnalysisMode, SolverStats } from './MNASystem';
+import { ACSystem } from './ACSystem';
+import { OperatingPoint, ACSweep, ACSweepOptions, FrequencyPoint } from './AnalysisResults';
+import {
+  CircuitDiagnostic,
+  diagnoseTopology,
+  diagnoseSingularSystem,
+  diagnoseIllConditioning
+} from './CircuitDiagnostics';
+
+// Backward-Euler steps taken after a discontinuity before trapezoidal resumes
+const RESTART_STEPS = 2;
+
+export interface ConvergenceStatus {
+  converged: boolean;
+  singular: boolean; // The matrix could not be factored at all
+  iterations: number;
+  maxVoltageChange: number; // Largest node update on the last iteration (V)
 }
 
 export class PhysicsEngine {
   private components: Component[] = [];
   private wires: Wire[] = [];
-  private nodes: Map<number, CircuitNode> = new Map();
-  private groundNode: number = 0;
+  private netlist: Netlist = new Netlist([], []);
+  private system: MNASystem | null = null;
 
   // Simulation parameters
   private timeStep: number = 0.001; // 1ms
+  private integrationMethod: IntegrationMethod = IntegrationMethod.BACKWARD_EULER;
   private accumulator: number = 0;
+  private discreteStates: number[] = []; // Each component's getDiscreteState() at the last step
+  private restartSteps: number = 0; // Backward-Euler steps still to take after a discontinuity
+  private gmin: number = 1e-12; // Leakage to ground on every node (S)
+  private acSweepDefaults: ACSweepOptions = { startFrequency: 1, stopFrequency: 100000, pointsPerDecade: 20 };
+
+  // Newton-Raphson parameters for nonlinear components
+  private maxIterations: number = 50;
+  private dampingStartIteration: number = 10; // Halve the steps after this many iterations
+  private relTolerance: number = 1e-3;
+  private voltageTolerance: number = 1e-6; // V
+  private currentTolerance: number = 1e-9; // A
+  private convergence: ConvergenceStatus = { converged: true, singular: false, iterations: 0, maxVoltageChange: 0 };
+
+  // Pivot ratio below which the solution is flagged as unreliable
+  private illConditionedRatio: number = 1e-13;
+  private diagnostics: CircuitDiagnostic[] = [];
+  private solverDiagnostic: CircuitDiagnostic | null = null;
 
   addComponent(component: Component): void {
     this.components.push(component);
@@ -51,7 +83,10 @@ export class PhysicsEngine {
   clear(): void {
     this.components = [];
     this.wires = [];
-    this.nodes.clear();
+    this.netlist = new Netlist([], []);
+    this.system = null;
+    this.diagnostics = [];
+    this.solverDiagnostic = null;
   }
 
   update(deltaTime: number): void {
@@ -63,211 +98,370 @@ export class PhysicsEngine {
       this.accumulator -= this.timeStep;
     }
 
+    this.updateWireCurrents();
+    this.updateDiagnostics();
+
     // Update components
     for (const component of this.components) {
       component.update(deltaTime);
     }
   }
 
-  private simulate(_dt: number): void {
-    if (this.components.length === 0) return;
+  getTimeStep(): number {
+    return this.timeStep;
+  }
+
+  setIntegrationMethod(method: IntegrationMethod): void {
+    this.integrationMethod = method;
+  }
+
+  getIntegrationMethod(): IntegrationMethod {
+    return this.integrationMethod;
+  }
+
+  private simulate(dt: number): void {
+    if (this.components.length === 0 || !this.system) return;
+
+    // Trapezoidal integration carries each winding's last voltage forward, so
+    // across a jump (contacts moving, a part burning out, a rebuilt circuit)
+    // it rings indefinitely. Like SPICE at a breakpoint, take backward-Euler
+    // steps instead: the first absorbs the jump, the second leaves a history
+    // term from after it
+    const states = this.components.map(component => component.getDiscreteState());
+    if (states.some((state, i) => state !== this.discreteStates[i])) {
+      this.restartSteps = RESTART_STEPS;
+    }
+    this.discreteStates = states;
+
+    const method = this.restartSteps > 0 ? IntegrationMethod.BACKWARD_EULER : this.integrationMethod;
+    this.restartSteps = Math.max(0, this.restartSteps - 1);
 
     // Solve circuit using Modified Nodal Analysis
+    this.system.setTimeStep(dt, method);
     this.solveCircuit();
+
+    for (const component of this.components) {
+      component.acceptTimeStep(this.system);
+    }
   }
 
   private rebuildCircuit(): void {
-    // Rebuild node connectivity
-    this.nodes.clear();
+    // Nets are derived from the wires that exist right now
+    this.netlist = new Netlist(this.components, this.wires);
+    this.system = new MNASystem(this.netlist, this.components);
+    this.restartSteps = RESTART_STEPS;
+  }
 
-    // Assign nodes to component terminals
-    for (const component of this.components) {
-      const terminals = component.getTerminals();
-      for (const terminal of terminals) {
-        if (!this.nodes.has(terminal.node)) {
-          this.nodes.set(terminal.node, {
-            id: terminal.node,
-            voltage: 0,
-            components: []
-          });
-        }
-      }
+  getNetlist(): Netlist {
+    return this.netlist;
+  }
+
+  getSolverStats(): SolverStats | null {
+    return this.system ? this.system.getSolverStats() : null;
+  }
+
+  getConvergenceStatus(): ConvergenceStatus {
+    return this.convergence;
+  }
+
+  private solveCircuit(): void {
+    const system = this.system;
+    if (!system || system.getSize() === 0) return;
+
+    this.convergence = this.newtonRaphson(system, this.gmin);
+
+    if (this.convergence.singular) {
+      const { nets, components } = system.getSingularUnknowns();
+      this.solverDiagnostic = diagnoseSingularSystem(nets, components);
+      return;
     }
 
-    // Connect nodes via wires
-    for (const wire of this.wires) {
-      const startTerminal = wire.getStartComponent().getTerminal(wire.getStartTerminal());
-      const endTerminal = wire.getEndComponent().getTerminal(wire.getEndTerminal());
-
-      if (startTerminal && endTerminal) {
-        // Merge nodes (wires connect nodes)
-        const minNode = Math.min(startTerminal.node, endTerminal.node);
-        const maxNode = Math.max(startTerminal.node, endTerminal.node);
-
-        // Update all terminals with maxNode to use minNode
-        for (const component of this.components) {
-          for (const terminal of component.getTerminals()) {
-            if (terminal.node === maxNode) {
-              terminal.node = minNode;
-            }
-          }
-        }
+    const pivotRatio = system.getPivotRatio();
+    this.solverDiagnostic = pivotRatio < this.illConditionedRatio ? diagnoseIllConditioning(pivotRatio) : null;
+
+    this.applySolution(system);
+  }
+
+  /**
+   * DC operating point: capacitors open, inductors shorted, nonlinear parts
+   * converged. Falls back to gmin stepping when plain Newton-Raphson fails.
+   * The running transient is unaffected; see preservingTransientState.
+   */
+  solveOperatingPoint(): OperatingPoint {
+    return this.preservingTransientState(() => this.findOperatingPoint());
+  }
+
+  private findOperatingPoint(): OperatingPoint {
+    const system = new MNASystem(this.netlist, this.components);
+    system.setAnalysisMode(AnalysisMode.DC);
+
+    let status = this.newtonRaphson(system, this.gmin);
+    if (!status.converged && !status.singular) {
+      // Start heavily loaded toward ground and relax back to the normal gmin
+      for (let gmin = 1e-3; gmin > this.gmin; gmin /= 10) {
+        this.newtonRaphson(system, gmin);
       }
+      status = this.newtonRaphson(system, this.gmin);
+    }
+
+    const diagnostics = diagnoseTopology(this.netlist, this.components, true);
+    if (status.singular) {
+      const { nets, components } = system.getSingularUnknowns();
+      diagnostics.push(diagnoseSingularSystem(nets, components));
     }
+
+    if (!status.singular) {
+      this.applySolution(system);
+    }
+
+    const result: OperatingPoint = {
+      converged: status.converged,
+      iterations: status.iterations,
+      nets: this.netlist.getNets().map(net => ({ net, voltage: status.singular ? 0 : net.voltage })),
+      components: this.components.map(component => {
+        const terminals = status.singular ? [] : component.getTerminals();
+        const terminalCurrents = terminals.map(t => t.current);
+        return {
+          component,
+          voltage: terminals.length === 2 ? terminals[0].voltage - terminals[1].voltage : 0,
+          current: terminalCurrents.length > 0 ? terminalCurrents[0] : 0,
+          terminalCurrents,
+          // Sum of V·I over the terminals: positive absorbs, negative delivers
+          power: terminals.reduce((sum, t) => sum + t.voltage * t.current, 0)
+        };
+      }),
+      diagnostics
+    };
+
+    return result;
   }
 
-  private solveCircuit(): void {
-    // Build MNA matrices
-    const nodeCount = this.nodes.size;
-    const voltageSourceCount = this.countVoltageSources();
-    const matrixSize = nodeCount + voltageSourceCount;
-
-    if (matrixSize === 0) return;
-
-    // G matrix (conductances) and b vector (currents/voltages)
-    const G: number[][] = Array(matrixSize).fill(0).map(() => Array(matrixSize).fill(0));
-    const b: number[] = Array(matrixSize).fill(0);
-
-    // Build conductance matrix
-    this.buildConductanceMatrix(G, b);
-
-    // Solve using Gaussian elimination
-    const x = this.gaussianElimination(G, b);
-
-    if (x) {
-      // Apply solution to nodes
-      let nodeIndex = 0;
-      for (const [nodeId, node] of this.nodes) {
-        if (nodeId !== this.groundNode && nodeIndex < x.length) {
-          node.voltage = x[nodeIndex];
-          nodeIndex++;
-        }
-      }
+  /**
+   * Side analyses solve their own systems but stamp the live components,
+   * which keep their linearization and clamp state from solve to solve and
+   * report readings through their terminals. Snapshot all of it, run the
+   * analysis, and put it back so the next transient step continues from
+   * its own previous step rather than from the DC solution.
+   */
+  private preservingTransientState<T>(analysis: () => T): T {
+    const netVoltages = this.netlist.getNets().map(net => net.voltage);
+    const terminalReadings = this.components.map(c => c.getTerminals().map(t => ({ voltage: t.voltage, current: t.current })));
+    const solverStates = this.components.map(c => c.getSolverState());
+
+    const result = analysis();
+
+    this.netlist.getNets().forEach((net, i) => {
+      net.voltage = netVoltages[i];
+    });
+    this.components.forEach((component, i) => {
+      component.getTerminals().forEach((terminal, k) => {
+        terminal.voltage = terminalReadings[i][k].voltage;
+        terminal.current = terminalReadings[i][k].current;
+      });
+      component.setSolverState(solverStates[i]);
+    });
+
+    return result;
+  }
 
-      // Update component voltages and currents
-      this.updateComponentValues(x);
+  /**
+   * Small-signal frequency response Vout/Vin. Nonlinear parts are linearized
+   * at the DC operating point, DC sources are zeroed, and the input net is
+   * driven by a 1 V test source against ground over a logarithmic sweep.
+   * Like the operating point, it leaves the running transient unaffected.
+   */
+  solveACSweep(input: Net, output: Net, options: Partial<ACSweepOptions> = {}): ACSweep {
+    if (input.id === 0) {
+      throw new Error('AC sweep input must be a net other than ground');
     }
+
+    // The small-signal stamps read the DC linearization, so both run inside
+    return this.preservingTransientState(() => this.sweep(input, output, { ...this.acSweepDefaults, ...options }));
   }
 
-  private buildConductanceMatrix(G: number[][], b: number[]): void {
-    // Simplified circuit analysis
-    // In a full implementation, this would build the complete MNA matrix
-    // For now, we'll use a simplified approach for basic components
+  private sweep(input: Net, output: Net, options: ACSweepOptions): ACSweep {
+    const { startFrequency, stopFrequency, pointsPerDecade } = options;
+    const operatingPoint = this.findOperatingPoint();
+    const system = new ACSystem(this.netlist, this.components);
+    const inputRow = system.getNetRow(input.id);
+    const outputRow = system.getNetRow(output.id);
 
-    let nodeIndex = 0;
-    const nodeMap = new Map<number, number>();
+    const decades = Math.log10(stopFrequency / startFrequency);
+    const count = Math.max(Math.ceil(decades * pointsPerDecade), 1) + 1;
+    const points: FrequencyPoint[] = [];
 
-    for (const [nodeId] of this.nodes) {
-      if (nodeId !== this.groundNode) {
-        nodeMap.set(nodeId, nodeIndex);
-        nodeIndex++;
+    for (let i = 0; i < count; i++) {
+      const frequency = startFrequency * Math.pow(10, (decades * i) / (count - 1));
+      system.setFrequency(frequency);
+      system.reset();
+
+      for (let node = 0; node < system.getNodeCount(); node++) {
+        system.stampMatrix(node, node, this.gmin);
       }
-    }
+      for (const component of this.components) {
+        component.stampAC(system);
+      }
+      system.stampVoltageSource(inputRow, GROUND, system.getStimulusBranch(), 1);
 
-    // Add component contributions
-    for (const component of this.components) {
-      const terminals = component.getTerminals();
-      if (terminals.length === 2) {
-        const resistance = component.getResistance();
-        const voltage = component.getVoltage();
-
-        if (resistance > 0) {
-          const conductance = 1 / resistance;
-          const n1 = nodeMap.get(terminals[0].node);
-          const n2 = nodeMap.get(terminals[1].node);
-
-          if (n1 !== undefined && n2 !== undefined) {
-            G[n1][n1] += conductance;
-            G[n1][n2] -= conductance;
-            G[n2][n1] -= conductance;
-            G[n2][n2] += conductance;
-          }
-        }
+      if (!system.solve()) continue;
 
-        // Add voltage source
-        if (voltage !== 0) {
-          const n1 = nodeMap.get(terminals[0].node);
-          const n2 = nodeMap.get(terminals[1].node);
-
-          if (n1 !== undefined) {
-            b[n1] += voltage / (resistance || 1);
-          }
-          if (n2 !== undefined) {
-            b[n2] -= voltage / (resistance || 1);
-          }
-        }
+      // The test source fixes Vin = 1∠0°, so Vout is the transfer function
+      const { re, im } = system.getVoltage(outputRow);
+      const magnitude = Math.hypot(re, im);
+      let phase = (Math.atan2(im, re) * 180) / Math.PI;
+
+      // Unwrap so the phase curve stays continuous across ±180°
+      const last = points[points.length - 1];
+      if (last) {
+        phase -= 360 * Math.round((phase - last.phase) / 360);
       }
+
+      points.push({ frequency, magnitude, magnitudeDb: 20 * Math.log10(Math.max(magnitude, 1e-30)), phase });
     }
+
+    return { input, output, points, cutoffFrequencies: this.findCutoffs(points), operatingPoint };
   }
 
-  private gaussianElimination(A: number[][], b: number[]): number[] | null {
-    const n = b.length;
-    if (n === 0) return null;
+  // Frequencies where the response crosses 3 dB below its peak, interpolated on a log axis
+  private findCutoffs(points: FrequencyPoint[]): number[] {
+    if (points.length === 0) return [];
 
-    // Augmented matrix
-    const augmented: number[][] = A.map((row, i) => [...row, b[i]]);
+    const target = Math.max(...points.map(p => p.magnitudeDb)) - 3;
+    const cutoffs: number[] = [];
 
-    // Forward elimination
-    for (let i = 0; i < n; i++) {
-      // Find pivot
-      let maxRow = i;
-      for (let k = i + 1; k < n; k++) {
-        if (Math.abs(augmented[k][i]) > Math.abs(augmented[maxRow][i])) {
-          maxRow = k;
-        }
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      if ((a.magnitudeDb - target) * (b.magnitudeDb - target) > 0 || a.magnitudeDb === b.magnitudeDb) continue;
+
+      const t = (target - a.magnitudeDb) / (b.magnitudeDb - a.magnitudeDb);
+      cutoffs.push(Math.pow(10, Math.log10(a.frequency) + t * Math.log10(b.frequency / a.frequency)));
+    }
+
+    return cutoffs;
+  }
+
+  private newtonRaphson(system: MNASystem, gmin: number): ConvergenceStatus {
+    const nonlinear = this.components.some(c => c.isNonlinear());
+    const iterationLimit = nonlinear ? this.maxIterations : 1;
+    let previous = system.getSolution();
+    let converged = false;
+    let maxVoltageChange = 0;
+    let iteration = 0;
+
+    // Newton-Raphson: re-stamp the linearized companions until the solution settles
+    while (iteration < iterationLimit && !converged) {
+      iteration++;
+      this.stampSystem(system, gmin);
+
+      if (!system.solve()) {
+        return { converged: false, singular: true, iterations: iteration, maxVoltageChange: Infinity };
       }
 
-      // Swap rows
-      [augmented[i], augmented[maxRow]] = [augmented[maxRow], augmented[i]];
+      if (!nonlinear) {
+        converged = true;
+        break;
+      }
 
-      // Skip if pivot is too small
-      if (Math.abs(augmented[i][i]) < 1e-10) continue;
+      if (iteration > this.dampingStartIteration) {
+        system.dampSolution(previous, 0.5);
+      }
 
-      // Eliminate column
-      for (let k = i + 1; k < n; k++) {
-        const factor = augmented[k][i] / augmented[i][i];
-        for (let j = i; j <= n; j++) {
-          augmented[k][j] -= factor * augmented[i][j];
+      const current = system.getSolution();
+      converged = !system.wasLimited();
+      maxVoltageChange = 0;
+      for (let i = 0; i < current.length; i++) {
+        const change = Math.abs(current[i] - previous[i]);
+        const absTolerance = i < system.getNodeCount() ? this.voltageTolerance : this.currentTolerance;
+        if (i < system.getNodeCount()) maxVoltageChange = Math.max(maxVoltageChange, change);
+        if (change > this.relTolerance * Math.max(Math.abs(current[i]), Math.abs(previous[i])) + absTolerance) {
+          converged = false;
         }
       }
+
+      previous = current;
     }
 
-    // Back substitution
-    const x: number[] = Array(n).fill(0);
-    for (let i = n - 1; i >= 0; i--) {
-      if (Math.abs(augmented[i][i]) < 1e-10) {
-        x[i] = 0;
-        continue;
-      }
+    return { converged, singular: false, iterations: iteration, maxVoltageChange };
+  }
 
-      x[i] = augmented[i][n];
-      for (let j = i + 1; j < n; j++) {
-        x[i] -= augmented[i][j] * x[j];
-      }
-      x[i] /= augmented[i][i];
+  private applySolution(system: MNASystem): void {
+    for (const net of this.netlist.getNets()) {
+      net.voltage = system.getVoltage(system.getNetRow(net.id));
+    }
+
+    for (const component of this.components) {
+      component.applySolution(system);
     }
+  }
 
-    return x;
+  getDiagnostics(): CircuitDiagnostic[] {
+    return this.diagnostics;
   }
 
-  private countVoltageSources(): number {
-    return this.components.filter(c => c.getVoltage() !== 0).length;
+  private updateDiagnostics(): void {
+    // Topology explains most failures; solver findings are kept when they add something
+    const topology = diagnoseTopology(this.netlist, this.components);
+    const solver = this.solverDiagnostic;
+    this.diagnostics = solver && (topology.length === 0 || solver.components.length + solver.nets.length > 0)
+      ? [...topology, solver]
+      : topology;
   }
 
-  private updateComponentValues(_solution: number[]): void {
-    // Update currents through components based on voltage solution
-    for (const wire of this.wires) {
-      const startTerm = wire.getStartComponent().getTerminal(wire.getStartTerminal());
-      const endTerm = wire.getEndComponent().getTerminal(wire.getEndTerminal());
+  private stampSystem(system: MNASystem, gmin: number): void {
+    system.reset();
+
+    // Tiny conductance to ground keeps floating subcircuits solvable
+    for (let node = 0; node < system.getNodeCount(); node++) {
+      system.stampMatrix(node, node, gmin);
+    }
 
-      if (startTerm && endTerm) {
-        const voltageDiff = startTerm.voltage - endTerm.voltage;
-        const current = voltageDiff / wire.getResistance();
-        wire.setCurrent(current);
+    for (const component of this.components) {
+      component.stamp(system);
+    }
+  }
 
-        startTerm.current = current;
-        endTerm.current = -current;
+  private updateWireCurrents(): void {
+    // Wires are ideal, so their currents follow from KCL at each terminal.
+    // Peel the wire graph from its leaves: a terminal with a single remaining
+    // wire pushes everything its component sources into that wire.
+    const injection = new Map<Terminal, number>();
+    const incident = new Map<Terminal, Set<Wire>>();
+    const ends = new Map<Wire, [Terminal, Terminal]>();
+
+    for (const wire of this.wires) {
+      const start = wire.getStartComponent().getTerminal(wire.getStartTerminal());
+      const end = wire.getEndComponent().getTerminal(wire.getEndTerminal());
+      wire.setCurrent(0);
+      if (!start || !end) continue;
+
+      ends.set(wire, [start, end]);
+      for (const terminal of [start, end]) {
+        // Current leaving the component is entering the wires
+        injection.set(terminal, -terminal.current);
+        if (!incident.has(terminal)) incident.set(terminal, new Set());
+        incident.get(terminal)!.add(wire);
       }
     }
+
+    const leaves = [...incident.keys()].filter(t => incident.get(t)!.size === 1);
+    while (leaves.length > 0) {
+      const terminal = leaves.pop()!;
+      const remaining = incident.get(terminal)!;
+      if (remaining.size !== 1) continue;
+
+      const wire = remaining.values().next().value as Wire;
+      const [start, end] = ends.get(wire)!;
+      const other = terminal === start ? end : start;
+      const current = injection.get(terminal)!;
+
+      wire.setCurrent(terminal === start ? current : -current);
+      remaining.delete(wire);
+      injection.set(other, injection.get(other)! + current);
+
+      const otherWires = incident.get(other)!;
+      otherWires.delete(wire);
+      if (otherWires.size === 1) leaves.push(other);
+    }
   }
 }
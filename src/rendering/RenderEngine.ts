@@ -8,10 +8,30 @@ import { Wire } from '../core/Wire';
 import { Vector2 } from '../math/Vector2';
 import { Battery } from '../components/Battery';
 import { Resistor } from '../components/Resistor';
+import { Potentiometer, PotentiometerTaper } from '../components/Potentiometer';
 import { LED } from '../components/LED';
 import { Switch } from '../components/Switch';
+import { DoubleThrowSwitch } from '../components/DoubleThrowSwitch';
+import { PushButton } from '../components/PushButton';
 import { Capacitor } from '../components/Capacitor';
 import { Motor } from '../components/Motor';
+import { Inductor } from '../components/Inductor';
+import { Ground } from '../components/Ground';
+import { Diode } from '../components/Diode';
+import { BJT, BJTPolarity, BJTRegion } from '../components/BJT';
+import { MOSFET, MOSFETChannel } from '../components/MOSFET';
+import { ControlledSource, ControlledSourceKind } from '../components/ControlledSource';
+import { OpAmp } from '../components/OpAmp';
+import { FunctionGenerator, Waveform } from '../components/FunctionGenerator';
+import { CurrentSource } from '../components/CurrentSource';
+import { Fuse } from '../components/Fuse';
+import { CircuitBreaker } from '../components/CircuitBreaker';
+import { Bulb } from '../components/Bulb';
+import { Relay } from '../components/Relay';
+import { Transformer } from '../components/Transformer';
+import { Speaker, SpeakerKind } from '../components/Speaker';
+import { CircuitDiagnostic, DiagnosticSeverity } from '../physics/CircuitDiagnostics';
+import { ACSweep, FrequencyPoint } from '../physics/AnalysisResults';
 
 export class RenderEngine {
   private canvas: HTMLCanvasElement;
@@ -142,11 +162,35 @@ export class RenderEngine {
   }
 
   renderComponents(components: Component[]): void {
+    this.renderShafts(components);
+
     for (const component of components) {
       this.renderComponent(component);
     }
   }
 
+  // Coupled motors are drawn joined by their common shaft
+  private renderShafts(components: Component[]): void {
+    const motors = components.filter((c): c is Motor => c instanceof Motor);
+
+    this.ctx.save();
+    this.ctx.strokeStyle = '#7f8c8d';
+    this.ctx.lineWidth = 6;
+    this.ctx.lineCap = 'round';
+    motors.forEach((motor, i) => {
+      for (const other of motors.slice(i + 1)) {
+        if (!motor.isCoupledTo(other)) continue;
+        const a = motor.getPosition();
+        const b = other.getPosition();
+        this.ctx.beginPath();
+        this.ctx.moveTo(a.x, a.y);
+        this.ctx.lineTo(b.x, b.y);
+        this.ctx.stroke();
+      }
+    });
+    this.ctx.restore();
+  }
+
   private renderComponent(component: Component): void {
     this.ctx.save();
 
@@ -169,18 +213,73 @@ export class RenderEngine {
       case ComponentType.RESISTOR:
         this.renderResistor(component as unknown as Resistor);
         break;
+      case ComponentType.POTENTIOMETER:
+        this.renderPotentiometer(component as unknown as Potentiometer);
+        break;
       case ComponentType.LED:
         this.renderLED(component as unknown as LED);
         break;
+      case ComponentType.BULB:
+        this.renderBulb(component as unknown as Bulb);
+        break;
+      case ComponentType.SPEAKER:
+        this.renderSpeaker(component as unknown as Speaker);
+        break;
       case ComponentType.SWITCH:
         this.renderSwitch(component as unknown as Switch);
         break;
+      case ComponentType.DOUBLE_THROW_SWITCH:
+        this.renderDoubleThrowSwitch(component as unknown as DoubleThrowSwitch);
+        break;
+      case ComponentType.PUSH_BUTTON:
+        this.renderPushButton(component as unknown as PushButton);
+        break;
+      case ComponentType.RELAY:
+        this.renderRelay(component as unknown as Relay);
+        break;
       case ComponentType.CAPACITOR:
         this.renderCapacitor(component as unknown as Capacitor);
         break;
       case ComponentType.MOTOR:
         this.renderMotor(component as unknown as Motor);
         break;
+      case ComponentType.INDUCTOR:
+        this.renderInductor(component as unknown as Inductor);
+        break;
+      case ComponentType.TRANSFORMER:
+        this.renderTransformer(component as unknown as Transformer);
+        break;
+      case ComponentType.GROUND:
+        this.renderGround(component as unknown as Ground);
+        break;
+      case ComponentType.DIODE:
+      case ComponentType.ZENER:
+        this.renderDiode(component as unknown as Diode);
+        break;
+      case ComponentType.BJT:
+        this.renderBJT(component as unknown as BJT);
+        break;
+      case ComponentType.MOSFET:
+        this.renderMOSFET(component as unknown as MOSFET);
+        break;
+      case ComponentType.CONTROLLED_SOURCE:
+        this.renderControlledSource(component as unknown as ControlledSource);
+        break;
+      case ComponentType.OP_AMP:
+        this.renderOpAmp(component as unknown as OpAmp);
+        break;
+      case ComponentType.FUNCTION_GENERATOR:
+        this.renderFunctionGenerator(component as unknown as FunctionGenerator);
+        break;
+      case ComponentType.CURRENT_SOURCE:
+        this.renderCurrentSource(component as unknown as CurrentSource);
+        break;
+      case ComponentType.FUSE:
+        this.renderFuse(component as unknown as Fuse);
+        break;
+      case ComponentType.CIRCUIT_BREAKER:
+        this.renderCircuitBreaker(component as unknown as CircuitBreaker);
+        break;
     }
 
     this.ctx.restore();
@@ -242,7 +341,37 @@ export class RenderEngine {
     this.ctx.font = 'bold 14px Arial';
     this.ctx.textAlign = 'center';
     this.ctx.textBaseline = 'middle';
-    this.ctx.fillText(`${battery.getVoltage()}V`, 0, 0);
+    if (battery.isIdeal()) {
+      this.ctx.fillText(`${battery.getNominalVoltage()}V`, 0, 0);
+      return;
+    }
+    this.ctx.fillText(`${battery.getNominalVoltage()}V`, 0, -6);
+
+    // Chemistry and charge gauge, green to red as it drains
+    const soc = battery.getStateOfCharge();
+    const gaugeWidth = width - 36;
+    this.ctx.font = '9px Arial';
+    this.ctx.fillText(battery.getChemistryLabel(), 0, -height / 2 + 7);
+
+    this.ctx.strokeStyle = '#bdc3c7';
+    this.ctx.lineWidth = 1;
+    this.ctx.strokeRect(-gaugeWidth / 2, 6, gaugeWidth, 8);
+    this.ctx.fillStyle = soc > 0.5 ? '#2ecc71' : soc > 0.2 ? '#f1c40f' : '#e74c3c';
+    this.ctx.fillRect(-gaugeWidth / 2 + 1, 7, (gaugeWidth - 2) * soc, 6);
+
+    this.ctx.fillStyle = '#fff';
+    this.ctx.fillText(`${Math.round(soc * 100)}%`, 0, height / 2 - 6);
+
+    // Time left at the present drain
+    const runtime = battery.getRuntime();
+    if (isFinite(runtime)) {
+      const hours = runtime / 3600;
+      const runtimeText = hours >= 1 ? `${hours.toFixed(1)}h left` : `${Math.ceil(runtime / 60)}min left`;
+      this.ctx.fillStyle = '#000';
+      this.ctx.font = '10px Arial';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(runtimeText, 0, height / 2 + 3);
+    }
   }
 
   private renderResistor(resistor: Resistor): void {
@@ -294,6 +423,66 @@ export class RenderEngine {
     this.ctx.fillText(resistanceText, 0, bodyHeight / 2 + 3);
   }
 
+  private renderPotentiometer(pot: Potentiometer): void {
+    const width = pot.getWidth();
+    const height = pot.getHeight();
+    const trackLength = pot.getTrackLength();
+    const trackHeight = 12;
+
+    // Leads to both ends of the track
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-trackLength / 2, 0);
+    this.ctx.moveTo(trackLength / 2, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    // Resistive track, shaded up to the wiper
+    const wiperX = (pot.getWiper() - 0.5) * trackLength;
+    this.ctx.fillStyle = '#d4a373';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.roundRect(-trackLength / 2, -trackHeight / 2, trackLength, trackHeight, 3);
+    this.ctx.fill();
+    this.ctx.fillStyle = 'rgba(139, 69, 19, 0.5)';
+    this.ctx.fillRect(-trackLength / 2, -trackHeight / 2, wiperX + trackLength / 2, trackHeight);
+    this.ctx.stroke();
+
+    // Wiper: from its terminal down to an arrow on the track
+    this.ctx.beginPath();
+    this.ctx.moveTo(0, -height / 2);
+    this.ctx.lineTo(0, -height / 2 + 6);
+    this.ctx.lineTo(wiperX, -height / 2 + 6);
+    this.ctx.lineTo(wiperX, -trackHeight / 2 - 4);
+    this.ctx.stroke();
+    this.ctx.fillStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(wiperX, -trackHeight / 2);
+    this.ctx.lineTo(wiperX - 4, -trackHeight / 2 - 6);
+    this.ctx.lineTo(wiperX + 4, -trackHeight / 2 - 6);
+    this.ctx.closePath();
+    this.ctx.fill();
+
+    // Draggable knob
+    this.ctx.fillStyle = '#3498db';
+    this.ctx.beginPath();
+    this.ctx.arc(wiperX, -4, 4, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Value, taper and wiper position
+    const resistance = pot.getResistance();
+    const resistanceText = resistance >= 1000 ? `${(resistance / 1000).toFixed(1)}kΩ` : `${resistance}Ω`;
+    const taperText = pot.getTaper() === PotentiometerTaper.LOGARITHMIC ? 'log' : 'lin';
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(`${resistanceText} ${taperText} ${Math.round(pot.getWiper() * 100)}%`, 0, trackHeight / 2 + 3);
+  }
+
   private renderLED(led: LED): void {
     const width = led.getWidth();
     const brightness = led.getBrightness();
@@ -347,6 +536,146 @@ export class RenderEngine {
     this.ctx.stroke();
   }
 
+  private renderBulb(bulb: Bulb): void {
+    const width = bulb.getWidth();
+    const height = bulb.getHeight();
+    const radius = height / 2 - 2;
+    const brightness = Math.min(bulb.getBrightness(), 1);
+    const glowColor = bulb.getGlowColor();
+
+    // The filament's own light replaces the generic overheating glow
+    this.ctx.shadowColor = glowColor;
+    this.ctx.shadowBlur = brightness > 0 ? 10 + 40 * brightness : 0;
+
+    // Glass envelope, filled with light as the filament heats
+    const gradient = this.ctx.createRadialGradient(0, 0, 0, 0, 0, radius);
+    if (brightness > 0) {
+      gradient.addColorStop(0, '#fff');
+      gradient.addColorStop(0.25, glowColor);
+      gradient.addColorStop(1, `rgba(255, 240, 200, ${0.2 + 0.6 * brightness})`);
+    } else {
+      gradient.addColorStop(0, 'rgba(255, 255, 255, 0.6)');
+      gradient.addColorStop(1, 'rgba(200, 215, 230, 0.4)');
+    }
+    this.ctx.fillStyle = gradient;
+    this.ctx.beginPath();
+    this.ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    this.ctx.shadowBlur = 0;
+    this.ctx.strokeStyle = '#555';
+    this.ctx.lineWidth = 2;
+    this.ctx.stroke();
+
+    // Leads to the filament supports
+    this.ctx.strokeStyle = '#888';
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-radius + 4, 0);
+    this.ctx.lineTo(-8, 6);
+    this.ctx.moveTo(width / 2, 0);
+    this.ctx.lineTo(radius - 4, 0);
+    this.ctx.lineTo(8, 6);
+    this.ctx.stroke();
+
+    // Coiled filament, broken once burned out
+    this.ctx.strokeStyle = brightness > 0 ? glowColor : '#444';
+    this.ctx.lineWidth = 1.5;
+    const coils = 4;
+    const pitch = 16 / coils;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-8, 6);
+    for (let i = 0; i < coils; i++) {
+      const start = -8 + i * pitch;
+      if (bulb.isBurnedOut() && i === coils / 2) {
+        this.ctx.moveTo(start + pitch, 6);
+      } else {
+        this.ctx.quadraticCurveTo(start + pitch / 2, -6, start + pitch, 6);
+      }
+    }
+    this.ctx.stroke();
+
+    // Rating
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(`${bulb.getRatedVoltage()}V ${bulb.getRatedPower()}W`, 0, height / 2 + 2);
+  }
+
+  private renderSpeaker(speaker: Speaker): void {
+    const width = speaker.getWidth();
+    const height = speaker.getHeight();
+    const buzzer = speaker.getKind() === SpeakerKind.BUZZER;
+
+    // Leads up into the body
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-8, 0);
+    this.ctx.moveTo(width / 2, 0);
+    this.ctx.lineTo(8, 0);
+    this.ctx.stroke();
+
+    let waveX: number;
+    if (buzzer) {
+      // Round piezo housing with its sound hole; the + lead is terminal 0
+      this.ctx.fillStyle = speaker.getColor();
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, 16, 0, Math.PI * 2);
+      this.ctx.fill();
+      this.ctx.strokeStyle = '#111';
+      this.ctx.stroke();
+      this.ctx.fillStyle = '#000';
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, 3, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.fillStyle = '#fff';
+      this.ctx.font = 'bold 10px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillText('+', -9, -7);
+      waveX = 16;
+    } else {
+      // Magnet behind a cone that opens to the right
+      this.ctx.fillStyle = '#555';
+      this.ctx.fillRect(-14, -8, 10, 16);
+      this.ctx.fillStyle = speaker.getColor();
+      this.ctx.beginPath();
+      this.ctx.moveTo(-4, -8);
+      this.ctx.lineTo(10, -height / 2 + 5);
+      this.ctx.lineTo(10, height / 2 - 5);
+      this.ctx.lineTo(-4, 8);
+      this.ctx.closePath();
+      this.ctx.fill();
+      this.ctx.strokeStyle = '#333';
+      this.ctx.stroke();
+      waveX = 12;
+    }
+
+    // Sound waves, stronger the louder it plays
+    const loudness = speaker.isBurnedOut() ? 0 : speaker.getLoudness();
+    if (loudness > 0.01) {
+      this.ctx.strokeStyle = `rgba(52, 152, 219, ${Math.min(0.3 + loudness * 3, 1)})`;
+      this.ctx.lineWidth = 2;
+      const waves = Math.min(1 + Math.floor(loudness * 10), 3);
+      for (let i = 1; i <= waves; i++) {
+        this.ctx.beginPath();
+        this.ctx.arc(waveX - 6, 0, 6 + i * 5, -Math.PI / 4, Math.PI / 4);
+        this.ctx.stroke();
+      }
+    }
+
+    // Label
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(buzzer ? 'BUZZER' : `${speaker.getResistance()}Ω`, 0, height / 2 + 2);
+  }
+
   private renderSwitch(switchComp: Switch): void {
     const width = switchComp.getWidth();
     const height = switchComp.getHeight();
@@ -392,6 +721,220 @@ export class RenderEngine {
     this.ctx.fillText(isOpen ? 'OPEN' : 'CLOSED', 0, height / 2 + 12);
   }
 
+  private renderDoubleThrowSwitch(switchComp: DoubleThrowSwitch): void {
+    const width = switchComp.getWidth();
+    const height = switchComp.getHeight();
+    const spread = switchComp.getThrowSpread();
+    const toB = switchComp.isThrownToB();
+    const pivotX = -width / 2 + 10;
+    const throwX = width / 2 - 10;
+
+    // Base
+    this.ctx.fillStyle = '#555';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(-width / 2, -height / 2 + 4, width, height - 8);
+    this.ctx.strokeRect(-width / 2, -height / 2 + 4, width, height - 8);
+
+    for (let pole = 0; pole < switchComp.getPoleCount(); pole++) {
+      const y = switchComp.getPoleOffset(pole);
+
+      // Common and both throw contacts
+      this.ctx.fillStyle = '#ffcc00';
+      for (const [x, contactY] of [[pivotX, y], [throwX, y - spread], [throwX, y + spread]]) {
+        this.ctx.beginPath();
+        this.ctx.arc(x, contactY, 4, 0, Math.PI * 2);
+        this.ctx.fill();
+      }
+
+      // Leads out to the throw terminals
+      this.ctx.strokeStyle = '#888';
+      this.ctx.lineWidth = 2;
+      this.ctx.beginPath();
+      this.ctx.moveTo(throwX, y - spread);
+      this.ctx.lineTo(width / 2, y - spread);
+      this.ctx.moveTo(throwX, y + spread);
+      this.ctx.lineTo(width / 2, y + spread);
+      this.ctx.stroke();
+
+      // Switch arm
+      this.ctx.strokeStyle = '#222';
+      this.ctx.lineWidth = 3;
+      this.ctx.lineCap = 'round';
+      this.ctx.beginPath();
+      this.ctx.moveTo(pivotX, y);
+      this.ctx.lineTo(throwX, toB ? y + spread : y - spread);
+      this.ctx.stroke();
+    }
+
+    // Poles that change over together are drawn linked
+    if (switchComp.getPoleCount() > 1) {
+      const first = switchComp.getPoleOffset(0);
+      const last = switchComp.getPoleOffset(switchComp.getPoleCount() - 1);
+      const linkX = (pivotX + throwX) / 2;
+      const linkShift = (toB ? spread : -spread) / 2;
+      this.ctx.strokeStyle = '#bbb';
+      this.ctx.lineWidth = 1;
+      this.ctx.setLineDash([3, 3]);
+      this.ctx.beginPath();
+      this.ctx.moveTo(linkX, first + linkShift);
+      this.ctx.lineTo(linkX, last + linkShift);
+      this.ctx.stroke();
+      this.ctx.setLineDash([]);
+    }
+
+    // Label
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText(switchComp.getPoleCount() > 1 ? 'DPDT' : 'SPDT', 0, height / 2 + 12);
+  }
+
+  private renderPushButton(button: PushButton): void {
+    const width = button.getWidth();
+    const height = button.getHeight();
+    const pressed = button.isPressed();
+    const closed = button.isClosed();
+    const contactX = width / 2 - 12;
+
+    // Leads to the two fixed contacts
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-contactX, 0);
+    this.ctx.moveTo(contactX, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#ffcc00';
+    for (const x of [-contactX, contactX]) {
+      this.ctx.beginPath();
+      this.ctx.arc(x, 0, 3, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+
+    // Bridging bar: sits across the contacts when closed. NO buttons bridge
+    // from above when pushed down; NC buttons rest on them and lift off
+    const barY = closed ? 0 : button.isNormallyOpen() ? -8 : 6;
+    this.ctx.strokeStyle = '#222';
+    this.ctx.lineWidth = 3;
+    this.ctx.lineCap = 'round';
+    this.ctx.beginPath();
+    this.ctx.moveTo(-contactX, barY);
+    this.ctx.lineTo(contactX, barY);
+    this.ctx.stroke();
+
+    // Plunger and cap, pushed down while held
+    const capY = -height / 4 + (pressed ? 4 : 0);
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(0, barY);
+    this.ctx.lineTo(0, capY);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = pressed ? '#c0392b' : '#e74c3c';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.roundRect(-10, capY - 6, 20, 8, 3);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Type and key binding
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    const key = button.getKey();
+    this.ctx.fillText(`${button.isNormallyOpen() ? 'NO' : 'NC'}${key ? ` [${key}]` : ''}`, 0, height / 2 - 6);
+  }
+
+  private renderRelay(relay: Relay): void {
+    const width = relay.getWidth();
+    const height = relay.getHeight();
+    const coilLeft = -width / 2 + 14;
+    const coilRight = -width / 8;
+    const contactX = width / 8;
+    const pivotX = width / 2 - 10;
+    const leverEnd = coilRight + 8;
+    const travel = 10;
+
+    // Coil leads and bobbin
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, -height / 4);
+    this.ctx.lineTo(coilLeft, -height / 4);
+    this.ctx.moveTo(-width / 2, height / 4);
+    this.ctx.lineTo(coilLeft, height / 4);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#bdc3c7';
+    this.ctx.fillRect(coilLeft, -height / 2 + 6, coilRight - coilLeft, height - 12);
+    this.ctx.strokeRect(coilLeft, -height / 2 + 6, coilRight - coilLeft, height - 12);
+
+    // Winding, glowing blue with the coil's magnetic pull
+    const pull = Math.min(Math.abs(relay.getCoilCurrent()) / relay.getPullInCurrent(), 1);
+    this.ctx.strokeStyle = pull > 0.05 ? `rgb(${Math.round(184 - 132 * pull)}, ${Math.round(115 + 37 * pull)}, ${Math.round(51 + 168 * pull)})` : '#b87333';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    for (let y = -height / 2 + 10; y <= height / 2 - 10; y += 4) {
+      this.ctx.moveTo(coilLeft + 2, y);
+      this.ctx.lineTo(coilRight - 2, y);
+    }
+    this.ctx.stroke();
+
+    // Common lead to the armature pivot, and the NO / NC contact posts
+    const leverY = (x: number, tip: number): number => tip * (pivotX - x) / (pivotX - leverEnd);
+    const openY = leverY(contactX, -travel) - 3;
+    const closedY = leverY(contactX, travel) + 3;
+
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(width / 2, 0);
+    this.ctx.lineTo(pivotX, 0);
+    this.ctx.moveTo(contactX, -height / 2);
+    this.ctx.lineTo(contactX, openY);
+    this.ctx.moveTo(contactX, height / 2);
+    this.ctx.lineTo(contactX, closedY);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#ffcc00';
+    for (const [y, closed] of [[openY, relay.isNormallyOpenClosed()], [closedY, relay.isNormallyClosedClosed()]] as [number, boolean][]) {
+      this.ctx.beginPath();
+      this.ctx.arc(contactX, y, 3, 0, Math.PI * 2);
+      this.ctx.fill();
+      if (closed) this.ctx.stroke();
+    }
+
+    // Armature: swings from the NC post (rest) up to the NO post as it is pulled in
+    const tip = travel - 2 * travel * relay.getArmaturePosition();
+    this.ctx.strokeStyle = '#2c3e50';
+    this.ctx.lineWidth = 3;
+    this.ctx.lineCap = 'round';
+    this.ctx.beginPath();
+    this.ctx.moveTo(pivotX, 0);
+    this.ctx.lineTo(leverEnd, tip);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#7f8c8d';
+    this.ctx.beginPath();
+    this.ctx.arc(pivotX, 0, 3, 0, Math.PI * 2);
+    this.ctx.fill();
+
+    // Labels
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '9px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText('NO', contactX + 4, -height / 2 + 6);
+    this.ctx.fillText('NC', contactX + 4, height / 2 - 6);
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(`${relay.getCoilVoltage()}V ${relay.isEnergized() ? 'ON' : 'OFF'}`, -width / 4, height / 2 + 3);
+  }
+
   private renderCapacitor(capacitor: Capacitor): void {
     const width = capacitor.getWidth();
     const height = capacitor.getHeight();
@@ -475,11 +1018,33 @@ export class RenderEngine {
     this.ctx.arc(0, 0, 5, 0, Math.PI * 2);
     this.ctx.fill();
 
-    // RPM indicator
-    this.ctx.fillStyle = '#000';
+    // Rotor grip, highlighted while turned by hand
+    const gripAngle = rotorAngle - Math.PI / 2;
+    this.ctx.fillStyle = motor.isRotorHeld() ? '#f1c40f' : '#ecf0f1';
+    this.ctx.beginPath();
+    this.ctx.arc(Math.cos(gripAngle) * width / 4, Math.sin(gripAngle) * width / 4, 4, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Brake band around the body, thicker for a heavier load
+    const load = motor.getLoadTorque();
+    if (load > 0) {
+      this.ctx.strokeStyle = '#d35400';
+      this.ctx.lineWidth = 1 + Math.min(load * 40, 6);
+      this.ctx.beginPath();
+      this.ctx.arc(0, 0, width / 2 - 2, Math.PI * 0.2, Math.PI * 0.8);
+      this.ctx.stroke();
+    }
+
+    // Speed, or a stall warning, and the load
+    this.ctx.fillStyle = motor.isStalled() ? '#e74c3c' : '#000';
     this.ctx.font = '10px Arial';
     this.ctx.textAlign = 'center';
-    this.ctx.fillText(`${rpm.toFixed(0)} RPM`, 0, height / 2 + 12);
+    this.ctx.fillText(motor.isStalled() ? 'STALLED' : `${rpm.toFixed(0)} RPM`, 0, height / 2 + 12);
+    if (load > 0) {
+      this.ctx.fillStyle = '#000';
+      this.ctx.fillText(`Load ${(load * 1000).toFixed(0)} mN⋅m`, 0, height / 2 + 24);
+    }
 
     // Terminals
     this.ctx.strokeStyle = '#888';
@@ -492,6 +1057,862 @@ export class RenderEngine {
     this.ctx.stroke();
   }
 
+  private renderInductor(inductor: Inductor): void {
+    const width = inductor.getWidth();
+    const height = inductor.getHeight();
+    const turns = 4;
+    const coilWidth = width * 0.7;
+    const turnWidth = coilWidth / turns;
+
+    // Leads
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-coilWidth / 2, 0);
+    this.ctx.moveTo(coilWidth / 2, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    // Coil turns
+    this.ctx.strokeStyle = '#b87333';
+    this.ctx.lineWidth = 3;
+    this.ctx.beginPath();
+    for (let i = 0; i < turns; i++) {
+      const centerX = -coilWidth / 2 + turnWidth * (i + 0.5);
+      this.ctx.arc(centerX, 0, turnWidth / 2, Math.PI, 0);
+    }
+    this.ctx.stroke();
+
+    // Magnetic field glow proportional to stored energy
+    const energy = inductor.getStoredEnergy();
+    if (energy > 1e-6) {
+      const intensity = Math.min(energy * 1000, 1);
+      this.ctx.strokeStyle = `rgba(52, 152, 219, ${intensity * 0.6})`;
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      this.ctx.ellipse(0, -height / 4, coilWidth / 2, height / 3, 0, Math.PI, 0);
+      this.ctx.stroke();
+    }
+
+    // Value and energy readout
+    const inductance = inductor.getInductance();
+    const valueText = inductance >= 1 ? `${inductance.toFixed(1)}H` : `${(inductance * 1000).toFixed(0)}mH`;
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(valueText, 0, 4);
+    this.ctx.fillText(`${(energy * 1000).toFixed(2)} mJ`, 0, height / 2 + 2);
+  }
+
+  private renderTransformer(transformer: Transformer): void {
+    const width = transformer.getWidth();
+    const height = transformer.getHeight();
+    const coilX = width / 2 - 18;
+    const coilHeight = height / 2 + 4;
+    const turns = 4;
+    const turnHeight = coilHeight / turns;
+
+    // Leads from the terminals to the ends of each winding
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    for (const side of [-1, 1]) {
+      this.ctx.moveTo(side * width / 2, -height / 4);
+      this.ctx.lineTo(side * coilX, -height / 4);
+      this.ctx.lineTo(side * coilX, -coilHeight / 2);
+      this.ctx.moveTo(side * width / 2, height / 4);
+      this.ctx.lineTo(side * coilX, height / 4);
+      this.ctx.lineTo(side * coilX, coilHeight / 2);
+    }
+    this.ctx.stroke();
+
+    // Windings: bumps face the core from both sides
+    this.ctx.strokeStyle = '#b87333';
+    this.ctx.lineWidth = 3;
+    this.ctx.beginPath();
+    for (let i = 0; i < turns; i++) {
+      const y = -coilHeight / 2 + turnHeight * (i + 0.5);
+      this.ctx.moveTo(-coilX, y - turnHeight / 2);
+      this.ctx.arc(-coilX, y, turnHeight / 2, -Math.PI / 2, Math.PI / 2);
+      this.ctx.moveTo(coilX, y + turnHeight / 2);
+      this.ctx.arc(coilX, y, turnHeight / 2, Math.PI / 2, Math.PI * 1.5);
+    }
+    this.ctx.stroke();
+
+    // Iron core, reddening as it saturates
+    const saturation = transformer.getSaturation();
+    this.ctx.strokeStyle = saturation > 0.05 ? `rgb(${Math.round(80 + 150 * saturation)}, 80, 80)` : '#555';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-3, -coilHeight / 2 - 2);
+    this.ctx.lineTo(-3, coilHeight / 2 + 2);
+    this.ctx.moveTo(3, -coilHeight / 2 - 2);
+    this.ctx.lineTo(3, coilHeight / 2 + 2);
+    this.ctx.stroke();
+
+    // Dots mark the winding ends that rise together
+    this.ctx.fillStyle = '#000';
+    for (const side of [-1, 1]) {
+      this.ctx.beginPath();
+      this.ctx.arc(side * (coilX - 10), -coilHeight / 2 - 2, 2.5, 0, Math.PI * 2);
+      this.ctx.fill();
+    }
+
+    // Turns ratio
+    const ratio = transformer.getTurnsRatio();
+    const label = ratio >= 1 ? `1:${Number(ratio.toFixed(2))}` : `${Number((1 / ratio).toFixed(2))}:1`;
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(label, 0, height / 2 + 3);
+  }
+
+  private renderGround(ground: Ground): void {
+    const width = ground.getWidth();
+    const height = ground.getHeight();
+
+    // Lead down from the terminal
+    this.ctx.strokeStyle = '#2c3e50';
+    this.ctx.lineWidth = 2;
+    this.ctx.lineCap = 'round';
+    this.ctx.beginPath();
+    this.ctx.moveTo(0, -height / 2);
+    this.ctx.lineTo(0, 0);
+
+    // Three bars of decreasing width
+    for (let i = 0; i < 3; i++) {
+      const barWidth = width * (1 - i * 0.3);
+      const y = i * 6;
+      this.ctx.moveTo(-barWidth / 2, y);
+      this.ctx.lineTo(barWidth / 2, y);
+    }
+    this.ctx.stroke();
+
+    // Label
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.fillText('0V', 0, height / 2 + 8);
+  }
+
+  private renderDiode(diode: Diode): void {
+    const width = diode.getWidth();
+    const size = 10;
+    const conducting = diode.getCurrent() > 1e-4 || diode.isInBreakdown();
+
+    // Leads
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-size, 0);
+    this.ctx.moveTo(size, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    // Triangle pointing from anode to cathode
+    this.ctx.fillStyle = conducting ? '#f39c12' : '#555';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(-size, -size);
+    this.ctx.lineTo(size, 0);
+    this.ctx.lineTo(-size, size);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Cathode bar; a Zener's bar has bent tips
+    this.ctx.lineWidth = 3;
+    this.ctx.beginPath();
+    if (diode.getType() === ComponentType.ZENER) {
+      this.ctx.moveTo(size - 5, -size - 3);
+      this.ctx.lineTo(size, -size);
+      this.ctx.lineTo(size, size);
+      this.ctx.lineTo(size + 5, size + 3);
+    } else {
+      this.ctx.moveTo(size, -size);
+      this.ctx.lineTo(size, size);
+    }
+    this.ctx.stroke();
+
+    // Breakdown voltage for Zeners
+    if (diode.getType() === ComponentType.ZENER) {
+      this.ctx.fillStyle = '#000';
+      this.ctx.font = '10px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(`${diode.getBreakdownVoltage()}V`, 0, size + 4);
+    }
+  }
+
+  private renderBJT(bjt: BJT): void {
+    const width = bjt.getWidth();
+    const height = bjt.getHeight();
+    const leadX = width / 4;
+    const region = bjt.getRegion();
+
+    // Envelope, tinted while the transistor conducts
+    this.ctx.fillStyle = region === BJTRegion.CUTOFF ? '#ecf0f1' : region === BJTRegion.ACTIVE ? '#d6f5e3' : '#fde2c4';
+    this.ctx.strokeStyle = '#333';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.arc(2, 0, height / 2 - 6, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Base lead and bar
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-6, 0);
+    this.ctx.stroke();
+    this.ctx.lineWidth = 4;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-6, -12);
+    this.ctx.lineTo(-6, 12);
+    this.ctx.stroke();
+
+    // Collector (top) and emitter (bottom) leads
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-6, -6);
+    this.ctx.lineTo(leadX, -18);
+    this.ctx.lineTo(leadX, -height / 2);
+    this.ctx.moveTo(-6, 6);
+    this.ctx.lineTo(leadX, 18);
+    this.ctx.lineTo(leadX, height / 2);
+    this.ctx.stroke();
+
+    // Emitter arrow: out of the base for NPN, into it for PNP
+    const angle = Math.atan2(12, leadX + 6);
+    const npn = bjt.getPolarity() === BJTPolarity.NPN;
+    const along = npn ? 0.9 : 0.35;
+    const tip = new Vector2(-6 + along * (leadX + 6), 6 + along * 12);
+    const direction = npn ? angle : angle + Math.PI;
+    this.ctx.fillStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(tip.x, tip.y);
+    this.ctx.lineTo(tip.x - 8 * Math.cos(direction - 0.4), tip.y - 8 * Math.sin(direction - 0.4));
+    this.ctx.lineTo(tip.x - 8 * Math.cos(direction + 0.4), tip.y - 8 * Math.sin(direction + 0.4));
+    this.ctx.closePath();
+    this.ctx.fill();
+
+    // Type and gain
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(npn ? 'NPN' : 'PNP', leadX + 6, -6);
+    this.ctx.fillText(`β${bjt.getBeta()}`, leadX + 6, 6);
+  }
+
+  private renderMOSFET(mosfet: MOSFET): void {
+    const width = mosfet.getWidth();
+    const height = mosfet.getHeight();
+    const leadX = width / 4;
+    const nChannel = mosfet.getChannel() === MOSFETChannel.N;
+
+    // Envelope, tinted while the channel is enhanced
+    this.ctx.fillStyle = mosfet.isOn() ? '#d6f5e3' : mosfet.isBodyDiodeConducting() ? '#fde2c4' : '#ecf0f1';
+    this.ctx.strokeStyle = '#333';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.arc(2, 0, height / 2 - 6, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Gate lead and plate, insulated from the channel by the oxide gap
+    this.ctx.strokeStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-10, 0);
+    this.ctx.moveTo(-10, -12);
+    this.ctx.lineTo(-10, 12);
+    this.ctx.stroke();
+
+    // Enhancement channel: three segments for drain, body and source
+    this.ctx.lineWidth = 3;
+    this.ctx.beginPath();
+    for (const y of [-12, 0, 12]) {
+      this.ctx.moveTo(-4, y - 4);
+      this.ctx.lineTo(-4, y + 4);
+    }
+    this.ctx.stroke();
+
+    // Drain (top) and source (bottom) leads; the body is tied to the source
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-4, -12);
+    this.ctx.lineTo(leadX, -12);
+    this.ctx.lineTo(leadX, -height / 2);
+    this.ctx.moveTo(-4, 12);
+    this.ctx.lineTo(leadX, 12);
+    this.ctx.lineTo(leadX, height / 2);
+    this.ctx.moveTo(-4, 0);
+    this.ctx.lineTo(leadX, 0);
+    this.ctx.lineTo(leadX, 12);
+    this.ctx.stroke();
+
+    // Body arrow: toward the channel for N-channel, away from it for P-channel
+    const tipX = nChannel ? -2 : leadX - 2;
+    const direction = nChannel ? -1 : 1;
+    this.ctx.fillStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(tipX, 0);
+    this.ctx.lineTo(tipX - direction * 7, -4);
+    this.ctx.lineTo(tipX - direction * 7, 4);
+    this.ctx.closePath();
+    this.ctx.fill();
+
+    // Body diode beside the channel, conducting source to drain for N-channel
+    const diodeX = leadX + 8;
+    const size = 4;
+    this.ctx.beginPath();
+    this.ctx.moveTo(leadX, -12);
+    this.ctx.lineTo(diodeX, -12);
+    this.ctx.lineTo(diodeX, 12);
+    this.ctx.lineTo(leadX, 12);
+    this.ctx.stroke();
+    this.ctx.fillStyle = mosfet.isBodyDiodeConducting() ? '#f39c12' : '#555';
+    this.ctx.beginPath();
+    this.ctx.moveTo(diodeX - size, nChannel ? size : -size);
+    this.ctx.lineTo(diodeX + size, nChannel ? size : -size);
+    this.ctx.lineTo(diodeX, nChannel ? -size : size);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.beginPath();
+    this.ctx.moveTo(diodeX - size, nChannel ? -size : size);
+    this.ctx.lineTo(diodeX + size, nChannel ? -size : size);
+    this.ctx.stroke();
+
+    // Type and threshold
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(nChannel ? 'N-ch' : 'P-ch', -width / 2, -14);
+    this.ctx.fillText(`Vth ${mosfet.getThresholdVoltage()}V`, -width / 2, 14);
+  }
+
+  private renderControlledSource(source: ControlledSource): void {
+    const width = source.getWidth();
+    const height = source.getHeight();
+    const size = height / 2 - 4;
+    const centerX = width / 2 - size - 6;
+    const pinY = height / 4;
+
+    // Output leads into a diamond, the dependent-source symbol
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(width / 2, -pinY);
+    this.ctx.lineTo(centerX, -pinY);
+    this.ctx.lineTo(centerX, -size);
+    this.ctx.moveTo(width / 2, pinY);
+    this.ctx.lineTo(centerX, pinY);
+    this.ctx.lineTo(centerX, size);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#fff';
+    this.ctx.beginPath();
+    this.ctx.moveTo(centerX, -size);
+    this.ctx.lineTo(centerX + size, 0);
+    this.ctx.lineTo(centerX, size);
+    this.ctx.lineTo(centerX - size, 0);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // ± for a voltage output, an arrow toward output + for a current output
+    this.ctx.fillStyle = '#000';
+    if (source.isVoltageOutput()) {
+      this.ctx.font = 'bold 10px Arial';
+      this.ctx.textAlign = 'center';
+      this.ctx.textBaseline = 'middle';
+      this.ctx.fillText('+', centerX, -size / 2);
+      this.ctx.fillText('−', centerX, size / 2);
+    } else {
+      this.ctx.beginPath();
+      this.ctx.moveTo(centerX, size / 2);
+      this.ctx.lineTo(centerX, -size / 2);
+      this.ctx.stroke();
+      this.ctx.beginPath();
+      this.ctx.moveTo(centerX, -size / 2 - 2);
+      this.ctx.lineTo(centerX - 4, -size / 2 + 4);
+      this.ctx.lineTo(centerX + 4, -size / 2 + 4);
+      this.ctx.closePath();
+      this.ctx.fill();
+    }
+
+    // Control port: a sense wire for current control, open pins for voltage control
+    this.ctx.strokeStyle = source.isCurrentControlled() ? '#000' : '#888';
+    this.ctx.setLineDash(source.isCurrentControlled() ? [] : [3, 3]);
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, -pinY);
+    this.ctx.lineTo(-width / 2 + 10, -pinY);
+    this.ctx.lineTo(-width / 2 + 10, pinY);
+    this.ctx.lineTo(-width / 2, pinY);
+    this.ctx.stroke();
+    this.ctx.setLineDash([]);
+
+    // Kind and gain
+    const units: Record<ControlledSourceKind, string> = {
+      [ControlledSourceKind.VCVS]: 'V/V',
+      [ControlledSourceKind.VCCS]: 'A/V',
+      [ControlledSourceKind.CCVS]: 'V/A',
+      [ControlledSourceKind.CCCS]: 'A/A'
+    };
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(source.getKind().toUpperCase(), -width / 2 + 14, -6);
+    this.ctx.fillText(`${source.getGain()} ${units[source.getKind()]}`, -width / 2 + 14, 6);
+  }
+
+  private renderOpAmp(opAmp: OpAmp): void {
+    const width = opAmp.getWidth();
+    const height = opAmp.getHeight();
+    const left = -width / 2 + 10;
+    const right = width / 2 - 10;
+    const half = height / 2 - 6;
+
+    // Leads: inputs, output and both supplies
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, -height / 4);
+    this.ctx.lineTo(left, -height / 4);
+    this.ctx.moveTo(-width / 2, height / 4);
+    this.ctx.lineTo(left, height / 4);
+    this.ctx.moveTo(right, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.moveTo(0, -height / 2);
+    this.ctx.lineTo(0, -half * (right / (right - left)));
+    this.ctx.moveTo(0, height / 2);
+    this.ctx.lineTo(0, half * (right / (right - left)));
+    this.ctx.stroke();
+
+    // Triangle, tinted while the output is saturated or slewing
+    this.ctx.fillStyle = opAmp.isSaturated() ? '#fde2c4' : opAmp.isSlewing() ? '#fff3b0' : '#ecf0f1';
+    this.ctx.beginPath();
+    this.ctx.moveTo(left, -half);
+    this.ctx.lineTo(right, 0);
+    this.ctx.lineTo(left, half);
+    this.ctx.closePath();
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Input and supply markings
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = 'bold 12px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText('−', left + 8, -height / 4);
+    this.ctx.fillText('+', left + 8, height / 4);
+    this.ctx.font = '9px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.fillText('V+', 3, -height / 2 + 5);
+    this.ctx.fillText('V−', 3, height / 2 - 5);
+  }
+
+  private renderFunctionGenerator(generator: FunctionGenerator): void {
+    const width = generator.getWidth();
+    const height = generator.getHeight();
+
+    // Instrument body, terminals coloured like the battery's
+    this.ctx.fillStyle = '#2c3e50';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(-width / 2, -height / 2, width, height);
+    this.ctx.strokeRect(-width / 2, -height / 2, width, height);
+
+    this.ctx.fillStyle = '#e74c3c';
+    this.ctx.fillRect(width / 2 - 8, -8, 8, 16);
+    this.ctx.fillStyle = '#3498db';
+    this.ctx.fillRect(-width / 2, -8, 8, 16);
+
+    // Screen with one cycle of the waveform
+    const screenLeft = -width / 2 + 12;
+    const screenWidth = width - 24;
+    const screenTop = -height / 2 + 5;
+    const screenHeight = height - 22;
+    const midY = screenTop + screenHeight / 2;
+    const scale = (screenHeight / 2 - 3) / Math.max(generator.getAmplitude(), 1e-9);
+
+    this.ctx.fillStyle = '#0b2e13';
+    this.ctx.fillRect(screenLeft, screenTop, screenWidth, screenHeight);
+
+    this.ctx.strokeStyle = '#2ecc71';
+    this.ctx.lineWidth = 1.5;
+    this.ctx.beginPath();
+    const samples = 48;
+    for (let i = 0; i <= samples; i++) {
+      // Sample just inside each end so the square edges draw as verticals
+      const phase = Math.min(i / samples, 0.9999);
+      const x = screenLeft + (i / samples) * screenWidth;
+      const y = midY - (generator.getVoltageAt(phase) - generator.getOffset()) * scale;
+      if (i === 0) this.ctx.moveTo(x, y);
+      else this.ctx.lineTo(x, y);
+    }
+    this.ctx.stroke();
+
+    // Dot at the present point in the cycle
+    const phase = generator.getPhase();
+    this.ctx.fillStyle = '#f1c40f';
+    this.ctx.beginPath();
+    this.ctx.arc(
+      screenLeft + phase * screenWidth,
+      midY - (generator.getVoltage() - generator.getOffset()) * scale,
+      2.5, 0, Math.PI * 2
+    );
+    this.ctx.fill();
+
+    // Frequency and amplitude
+    const frequency = generator.getFrequency();
+    this.ctx.fillStyle = '#fff';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    const frequencyText = frequency >= 1000 ? `${(frequency / 1000).toFixed(1)}kHz` : `${frequency}Hz`;
+    this.ctx.fillText(`${frequencyText} ${generator.getAmplitude()}V`, 0, height / 2 - 8);
+
+    // Offset and duty cycle underneath, when they matter
+    const settings: string[] = [];
+    const offset = generator.getOffset();
+    if (offset !== 0) settings.push(`offset ${offset > 0 ? '+' : ''}${offset}V`);
+    if (generator.getWaveform() === Waveform.PWM) settings.push(`duty ${Math.round(generator.getDutyCycle() * 100)}%`);
+    if (settings.length > 0) {
+      this.ctx.fillStyle = '#000';
+      this.ctx.textBaseline = 'top';
+      this.ctx.fillText(settings.join(' '), 0, height / 2 + 2);
+    }
+  }
+
+  private renderCurrentSource(source: CurrentSource): void {
+    const width = source.getWidth();
+    const height = source.getHeight();
+    const radius = height / 2 - 4;
+
+    // Leads into a circle, tinted while the source is held at its compliance voltage
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-radius, 0);
+    this.ctx.moveTo(radius, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = source.isInCompliance() ? '#fde2c4' : '#fff';
+    this.ctx.beginPath();
+    this.ctx.arc(0, 0, radius, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Arrow in the direction of the set current, toward terminal 1
+    this.ctx.beginPath();
+    this.ctx.moveTo(-radius + 5, 0);
+    this.ctx.lineTo(radius - 8, 0);
+    this.ctx.stroke();
+    this.ctx.fillStyle = '#000';
+    this.ctx.beginPath();
+    this.ctx.moveTo(radius - 4, 0);
+    this.ctx.lineTo(radius - 10, -5);
+    this.ctx.lineTo(radius - 10, 5);
+    this.ctx.closePath();
+    this.ctx.fill();
+
+    // Set current and compliance
+    const current = source.getSetCurrent();
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    const currentText = Math.abs(current) < 1 ? `${(current * 1000).toFixed(0)}mA` : `${current}A`;
+    const complianceText = source.isIdeal() ? 'ideal' : `≤${source.getComplianceVoltage()}V`;
+    this.ctx.fillText(`${currentText} ${complianceText}`, 0, height / 2 + 2);
+  }
+
+  private renderFuse(fuse: Fuse): void {
+    const width = fuse.getWidth();
+    const height = fuse.getHeight();
+    const capWidth = 10;
+    const bodyWidth = width - 8;
+
+    // Glass cartridge between two metal end caps
+    this.ctx.fillStyle = 'rgba(200, 230, 255, 0.5)';
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.fillRect(-bodyWidth / 2, -height / 2, bodyWidth, height);
+    this.ctx.strokeRect(-bodyWidth / 2, -height / 2, bodyWidth, height);
+
+    this.ctx.fillStyle = '#b0b0b0';
+    this.ctx.fillRect(-bodyWidth / 2, -height / 2, capWidth, height);
+    this.ctx.fillRect(bodyWidth / 2 - capWidth, -height / 2, capWidth, height);
+    this.ctx.strokeRect(-bodyWidth / 2, -height / 2, capWidth, height);
+    this.ctx.strokeRect(bodyWidth / 2 - capWidth, -height / 2, capWidth, height);
+
+    // Leads
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-bodyWidth / 2, 0);
+    this.ctx.moveTo(bodyWidth / 2, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    // Element: glows as it nears melting, broken with a soot smudge once blown
+    const inner = bodyWidth / 2 - capWidth;
+    this.ctx.lineWidth = 1.5;
+    if (fuse.isBlown()) {
+      this.ctx.fillStyle = 'rgba(60, 60, 60, 0.4)';
+      this.ctx.beginPath();
+      this.ctx.ellipse(0, 0, 10, height / 2 - 3, 0, 0, Math.PI * 2);
+      this.ctx.fill();
+
+      this.ctx.strokeStyle = '#555';
+      this.ctx.beginPath();
+      this.ctx.moveTo(-inner, 0);
+      this.ctx.lineTo(-5, 2);
+      this.ctx.moveTo(5, -2);
+      this.ctx.lineTo(inner, 0);
+      this.ctx.stroke();
+    } else {
+      const melt = fuse.getMeltFraction();
+      this.ctx.strokeStyle = melt > 0 ? `rgb(${Math.round(120 + 135 * melt)}, ${Math.round(120 * (1 - melt))}, 0)` : '#777';
+      this.ctx.beginPath();
+      this.ctx.moveTo(-inner, 0);
+      this.ctx.lineTo(inner, 0);
+      this.ctx.stroke();
+    }
+
+    // Rating
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText(fuse.isBlown() ? 'BLOWN' : `${fuse.getRatedCurrent()}A`, 0, height / 2 + 3);
+  }
+
+  private renderCircuitBreaker(breaker: CircuitBreaker): void {
+    const width = breaker.getWidth();
+    const height = breaker.getHeight();
+    const bodyWidth = width - 20;
+
+    // Leads into a moulded case
+    this.ctx.strokeStyle = '#000';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.moveTo(-width / 2, 0);
+    this.ctx.lineTo(-bodyWidth / 2, 0);
+    this.ctx.moveTo(bodyWidth / 2, 0);
+    this.ctx.lineTo(width / 2, 0);
+    this.ctx.stroke();
+
+    this.ctx.fillStyle = '#ecf0f1';
+    this.ctx.beginPath();
+    this.ctx.roundRect(-bodyWidth / 2, -height / 2, bodyWidth, height, 4);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    // Toggle lever: up when closed, down when off, red while tripped
+    const closed = breaker.isClosed();
+    this.ctx.fillStyle = '#7f8c8d';
+    this.ctx.fillRect(-6, -height / 2 + 6, 12, height - 20);
+    this.ctx.fillStyle = breaker.isTripped() ? '#e74c3c' : closed ? '#27ae60' : '#2c3e50';
+    this.ctx.fillRect(-6, closed ? -height / 2 + 6 : -2, 12, (height - 20) / 2 + 2);
+
+    // Bimetal heating bar along the bottom edge
+    const thermal = breaker.getThermalFraction();
+    if (thermal > 0) {
+      this.ctx.fillStyle = '#e67e22';
+      this.ctx.fillRect(-bodyWidth / 2 + 3, height / 2 - 6, (bodyWidth - 6) * thermal, 3);
+    }
+
+    // State and rating
+    this.ctx.fillStyle = '#000';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    const state = breaker.isTripped() ? 'TRIPPED' : closed ? 'ON' : 'OFF';
+    this.ctx.fillText(`${state} ${breaker.getRatedCurrent()}A`, 0, height / 2 + 3);
+  }
+
+  renderDiagnostics(diagnostics: CircuitDiagnostic[]): void {
+    if (diagnostics.length === 0) return;
+
+    this.ctx.save();
+
+    for (const diagnostic of diagnostics) {
+      const color = diagnostic.severity === DiagnosticSeverity.ERROR ? '#e74c3c' : '#f39c12';
+
+      // Dashed outline around every part involved
+      this.ctx.strokeStyle = color;
+      this.ctx.lineWidth = 2;
+      this.ctx.setLineDash([6, 4]);
+      for (const component of diagnostic.components) {
+        const pos = component.getPosition();
+        const width = component.getWidth() + 12;
+        const height = component.getHeight() + 12;
+        this.ctx.strokeRect(pos.x - width / 2, pos.y - height / 2, width, height);
+      }
+
+      // Rings on the terminals of the offending nets
+      this.ctx.setLineDash([]);
+      for (const net of diagnostic.nets) {
+        for (const terminal of net.terminals) {
+          this.ctx.beginPath();
+          this.ctx.arc(terminal.position.x, terminal.position.y, 9, 0, Math.PI * 2);
+          this.ctx.stroke();
+        }
+      }
+    }
+
+    // Message list in the top-left corner
+    this.ctx.font = '12px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    diagnostics.forEach((diagnostic, index) => {
+      const y = 10 + index * 20;
+      const text = `${diagnostic.severity === DiagnosticSeverity.ERROR ? '⛔' : '⚠️'} ${diagnostic.message}`;
+      const width = this.ctx.measureText(text).width + 12;
+
+      this.ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      this.ctx.fillRect(10, y, width, 18);
+      this.ctx.fillStyle = diagnostic.severity === DiagnosticSeverity.ERROR ? '#ff7675' : '#fdcb6e';
+      this.ctx.fillText(text, 16, y + 3);
+    });
+
+    this.ctx.restore();
+  }
+
+  // Labelled marker on a terminal picked for an analysis (IN / OUT)
+  renderProbe(position: Vector2, label: string, color: string): void {
+    this.ctx.save();
+    this.ctx.fillStyle = color;
+    this.ctx.strokeStyle = '#fff';
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    this.ctx.arc(position.x, position.y, 7, 0, Math.PI * 2);
+    this.ctx.fill();
+    this.ctx.stroke();
+
+    this.ctx.font = 'bold 11px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'bottom';
+    this.ctx.fillText(label, position.x, position.y - 10);
+    this.ctx.restore();
+  }
+
+  // Bode magnitude and phase panel in the bottom-right corner
+  renderBodePlot(sweep: ACSweep): void {
+    const { points } = sweep;
+    if (points.length < 2) return;
+
+    const panelWidth = 360;
+    const panelHeight = 300;
+    const x0 = this.width - panelWidth - 10;
+    const y0 = this.height - panelHeight - 10;
+    const plotLeft = x0 + 50;
+    const plotWidth = panelWidth - 65;
+    const plotHeight = 105;
+    const magnitudeTop = y0 + 35;
+    const phaseTop = magnitudeTop + plotHeight + 35;
+
+    const logMin = Math.log10(points[0].frequency);
+    const logMax = Math.log10(points[points.length - 1].frequency);
+    const xOf = (frequency: number) => plotLeft + ((Math.log10(frequency) - logMin) / (logMax - logMin)) * plotWidth;
+
+    this.ctx.save();
+    this.ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
+    this.ctx.fillRect(x0, y0, panelWidth, panelHeight);
+
+    this.ctx.fillStyle = '#fff';
+    this.ctx.font = 'bold 12px Arial';
+    this.ctx.textAlign = 'left';
+    this.ctx.textBaseline = 'top';
+    this.ctx.fillText('Bode plot  Vout / Vin', x0 + 10, y0 + 10);
+
+    const magnitude = points.map(p => p.magnitudeDb);
+    const phase = points.map(p => p.phase);
+    this.renderBodeTrace(points, magnitude, xOf, magnitudeTop, plotHeight, plotLeft, plotWidth, 'dB', '#00d4ff');
+    this.renderBodeTrace(points, phase, xOf, phaseTop, plotHeight, plotLeft, plotWidth, '°', '#fdcb6e');
+
+    // Decade labels under the phase plot
+    this.ctx.fillStyle = '#aaa';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'top';
+    for (let decade = Math.ceil(logMin); decade <= Math.floor(logMax); decade++) {
+      this.ctx.fillText(this.formatFrequency(Math.pow(10, decade)), xOf(Math.pow(10, decade)), phaseTop + plotHeight + 4);
+    }
+
+    // -3 dB markers across both plots
+    this.ctx.strokeStyle = '#ff7675';
+    this.ctx.fillStyle = '#ff7675';
+    this.ctx.setLineDash([4, 3]);
+    this.ctx.textBaseline = 'bottom';
+    for (const cutoff of sweep.cutoffFrequencies) {
+      const x = xOf(cutoff);
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, magnitudeTop);
+      this.ctx.lineTo(x, phaseTop + plotHeight);
+      this.ctx.stroke();
+      this.ctx.fillText(`-3 dB @ ${this.formatFrequency(cutoff)}`, x, magnitudeTop - 2);
+    }
+
+    this.ctx.restore();
+  }
+
+  private renderBodeTrace(
+    points: FrequencyPoint[],
+    values: number[],
+    xOf: (frequency: number) => number,
+    top: number,
+    height: number,
+    left: number,
+    width: number,
+    unit: string,
+    color: string
+  ): void {
+    let min = Math.min(...values);
+    let max = Math.max(...values);
+    if (max - min < 1) {
+      min -= 0.5;
+      max += 0.5;
+    }
+    const yOf = (value: number) => top + ((max - value) / (max - min)) * height;
+
+    this.ctx.strokeStyle = '#555';
+    this.ctx.lineWidth = 1;
+    this.ctx.setLineDash([]);
+    this.ctx.strokeRect(left, top, width, height);
+
+    this.ctx.fillStyle = '#aaa';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText(`${max.toFixed(0)}${unit}`, left - 4, top);
+    this.ctx.fillText(`${min.toFixed(0)}${unit}`, left - 4, top + height);
+
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = 2;
+    this.ctx.beginPath();
+    points.forEach((point, i) => {
+      const x = xOf(point.frequency);
+      const y = yOf(values[i]);
+      if (i === 0) this.ctx.moveTo(x, y);
+      else this.ctx.lineTo(x, y);
+    });
+    this.ctx.stroke();
+  }
+
+  private formatFrequency(frequency: number): string {
+    if (frequency >= 1e6) return `${Number((frequency / 1e6).toPrecision(3))}MHz`;
+    if (frequency >= 1e3) return `${Number((frequency / 1e3).toPrecision(3))}kHz`;
+    return `${Number(frequency.toPrecision(3))}Hz`;
+  }
+
   private renderBurnEffect(component: Component): void {
     const pos = component.getPosition();
     const width = component.getWidth();
@@ -4,22 +4,44 @@
 
 import { CircuitSimulator } from '../core/CircuitSimulator';
 import { InputManager, InteractionMode } from '../input/InputManager';
-import { Battery } from '../components/Battery';
+import { Battery, BatteryChemistry } from '../components/Battery';
 import { Resistor } from '../components/Resistor';
+import { Potentiometer, PotentiometerTaper } from '../components/Potentiometer';
 import { LED } from '../components/LED';
+import { Bulb } from '../components/Bulb';
 import { Switch } from '../components/Switch';
+import { DoubleThrowSwitch } from '../components/DoubleThrowSwitch';
+import { PushButton } from '../components/PushButton';
 import { Capacitor } from '../components/Capacitor';
 import { Motor } from '../components/Motor';
+import { Inductor } from '../components/Inductor';
+import { Transformer } from '../components/Transformer';
+import { Ground } from '../components/Ground';
+import { Diode } from '../components/Diode';
+import { ZenerDiode } from '../components/ZenerDiode';
+import { BJT, BJTPolarity } from '../components/BJT';
+import { MOSFET, MOSFETChannel } from '../components/MOSFET';
+import { ControlledSource, ControlledSourceKind } from '../components/ControlledSource';
+import { OpAmp } from '../components/OpAmp';
+import { FunctionGenerator, Waveform } from '../components/FunctionGenerator';
+import { CurrentSource } from '../components/CurrentSource';
+import { Fuse } from '../components/Fuse';
+import { CircuitBreaker } from '../components/CircuitBreaker';
+import { Relay } from '../components/Relay';
+import { Speaker, SpeakerKind } from '../components/Speaker';
+import { AudioOutput } from '../audio/AudioOutput';
 import { Vector2 } from '../math/Vector2';
 
 export class UIManager {
   private simulator: CircuitSimulator;
   private inputManager: InputManager;
+  private audioOutput: AudioOutput;
   private toolbar: HTMLElement;
 
-  constructor(simulator: CircuitSimulator, inputManager: InputManager) {
+  constructor(simulator: CircuitSimulator, inputManager: InputManager, audioOutput: AudioOutput) {
     this.simulator = simulator;
     this.inputManager = inputManager;
+    this.audioOutput = audioOutput;
 
     const toolbar = document.getElementById('toolbar');
     if (!toolbar) throw new Error('Toolbar element not found');
@@ -71,13 +93,50 @@ export class UIManager {
         break;
 
       case 'battery':
-        this.placeComponent(new Battery(new Vector2(centerX, centerY), 9));
+        this.placeComponent(new Battery(new Vector2(centerX, centerY), 9, BatteryChemistry.ALKALINE));
+        break;
+
+      case 'battery-nimh':
+        // Four AA cells
+        this.placeComponent(new Battery(new Vector2(centerX, centerY), 4.8, BatteryChemistry.NIMH));
+        break;
+
+      case 'battery-li-ion':
+        this.placeComponent(new Battery(new Vector2(centerX, centerY), 3.7, BatteryChemistry.LI_ION));
+        break;
+
+      case 'battery-lead-acid':
+        this.placeComponent(new Battery(new Vector2(centerX, centerY), 12, BatteryChemistry.LEAD_ACID));
+        break;
+
+      case 'generator':
+        this.placeComponent(new FunctionGenerator(new Vector2(centerX, centerY), Waveform.SINE, 5, 1));
+        break;
+
+      case 'pwm': {
+        // 0-5 V logic-level PWM, slow enough to watch an LED blink
+        const generator = new FunctionGenerator(new Vector2(centerX, centerY), Waveform.PWM, 5, 2);
+        generator.setDutyCycle(0.25);
+        this.placeComponent(generator);
+        break;
+      }
+
+      case 'current-source':
+        this.placeComponent(new CurrentSource(new Vector2(centerX, centerY), 0.02, 24));
         break;
 
       case 'resistor':
         this.placeComponent(new Resistor(new Vector2(centerX, centerY), 1000));
         break;
 
+      case 'potentiometer':
+        this.placeComponent(new Potentiometer(new Vector2(centerX, centerY), 1000));
+        break;
+
+      case 'potentiometer-log':
+        this.placeComponent(new Potentiometer(new Vector2(centerX, centerY), 10000, PotentiometerTaper.LOGARITHMIC));
+        break;
+
       case 'led':
         this.placeComponent(new LED(new Vector2(centerX, centerY), 'red'));
         break;
@@ -86,14 +145,120 @@ export class UIManager {
         this.placeComponent(new Switch(new Vector2(centerX, centerY), true));
         break;
 
+      case 'spdt':
+        this.placeComponent(new DoubleThrowSwitch(new Vector2(centerX, centerY), 1));
+        break;
+
+      case 'dpdt':
+        this.placeComponent(new DoubleThrowSwitch(new Vector2(centerX, centerY), 2));
+        break;
+
+      case 'push-button':
+      case 'push-button-nc':
+        this.placeComponent(new PushButton(new Vector2(centerX, centerY), action === 'push-button', this.nextButtonKey()));
+        break;
+
+      case 'relay':
+        this.placeComponent(new Relay(new Vector2(centerX, centerY), 9));
+        break;
+
+      case 'speaker':
+        this.placeComponent(new Speaker(new Vector2(centerX, centerY), SpeakerKind.SPEAKER));
+        break;
+
+      case 'buzzer':
+        this.placeComponent(new Speaker(new Vector2(centerX, centerY), SpeakerKind.BUZZER));
+        break;
+
+      case 'fuse':
+        this.placeComponent(new Fuse(new Vector2(centerX, centerY), 0.5));
+        break;
+
+      case 'breaker':
+        this.placeComponent(new CircuitBreaker(new Vector2(centerX, centerY), 1));
+        break;
+
       case 'capacitor':
         this.placeComponent(new Capacitor(new Vector2(centerX, centerY), 0.0001));
         break;
 
+      case 'transformer':
+        this.placeComponent(new Transformer(new Vector2(centerX, centerY), 2));
+        break;
+
+      case 'transformer-down':
+        this.placeComponent(new Transformer(new Vector2(centerX, centerY), 0.5));
+        break;
+
       case 'motor':
         this.placeComponent(new Motor(new Vector2(centerX, centerY)));
         break;
 
+      case 'inductor':
+        this.placeComponent(new Inductor(new Vector2(centerX, centerY), 0.1));
+        break;
+
+      case 'ground':
+        this.placeComponent(new Ground(new Vector2(centerX, centerY)));
+        break;
+
+      case 'bulb':
+        this.placeComponent(new Bulb(new Vector2(centerX, centerY), 9, 3));
+        break;
+
+      case 'diode':
+        this.placeComponent(new Diode(new Vector2(centerX, centerY)));
+        break;
+
+      case 'zener':
+        this.placeComponent(new ZenerDiode(new Vector2(centerX, centerY), 5.1));
+        break;
+
+      case 'npn':
+        this.placeComponent(new BJT(new Vector2(centerX, centerY), BJTPolarity.NPN));
+        break;
+
+      case 'pnp':
+        this.placeComponent(new BJT(new Vector2(centerX, centerY), BJTPolarity.PNP));
+        break;
+
+      case 'nmos':
+        this.placeComponent(new MOSFET(new Vector2(centerX, centerY), MOSFETChannel.N));
+        break;
+
+      case 'pmos':
+        this.placeComponent(new MOSFET(new Vector2(centerX, centerY), MOSFETChannel.P, 2, 0.1));
+        break;
+
+      case 'opamp':
+        this.placeComponent(new OpAmp(new Vector2(centerX, centerY)));
+        break;
+
+      case 'vcvs':
+      case 'vccs':
+      case 'ccvs':
+      case 'cccs': {
+        const kind = action as ControlledSourceKind;
+        const gain = kind === ControlledSourceKind.VCCS ? 0.01 : kind === ControlledSourceKind.CCVS ? 1000 : 10;
+        this.placeComponent(new ControlledSource(new Vector2(centerX, centerY), kind, gain));
+        break;
+      }
+
+      case 'couple':
+        // Click one motor, then another, to join or part their shafts
+        this.inputManager.setMode(InteractionMode.COUPLE);
+        break;
+
+      case 'bode':
+        // Click the input terminal, then the output terminal
+        this.inputManager.setMode(InteractionMode.PROBE);
+        break;
+
+      case 'sound':
+        this.toggleSound();
+        this.inputManager.setMode(InteractionMode.SELECT);
+        break;
+
       case 'multimeter':
         // TODO: Implement multimeter tool
         alert('Multimeter tool - Coming soon!');
@@ -105,6 +270,26 @@ export class UIManager {
     }
   }
 
+  // Audio has to be switched on from a click before the browser will play it
+  private toggleSound(): void {
+    const enabled = !this.audioOutput.isEnabled();
+    this.audioOutput.setEnabled(enabled, this.simulator.getComponents());
+
+    const button = this.toolbar.querySelector('[data-component="sound"]');
+    if (button) button.textContent = enabled ? '🔊 Sound On' : '🔇 Sound Off';
+  }
+
+  // Number keys 1-9 go to push buttons in the order they are placed
+  private nextButtonKey(): string | null {
+    const used = new Set(this.simulator.getComponents()
+      .filter((c): c is PushButton => c instanceof PushButton)
+      .map(button => button.getKey()));
+    for (let digit = 1; digit <= 9; digit++) {
+      if (!used.has(String(digit))) return String(digit);
+    }
+    return null;
+  }
+
   private placeComponent(component: any): void {
     this.simulator.addComponent(component);
     this.inputManager.setMode(InteractionMode.SELECT);